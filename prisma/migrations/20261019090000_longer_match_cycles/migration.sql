@@ -0,0 +1,3 @@
+-- Allow circular swaps of up to six teachers
+ALTER TYPE "match_type_enum" ADD VALUE IF NOT EXISTS 'circular_five';
+ALTER TYPE "match_type_enum" ADD VALUE IF NOT EXISTS 'circular_six';
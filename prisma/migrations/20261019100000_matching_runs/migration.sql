@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "matching_run_status_enum" AS ENUM ('running', 'completed', 'failed');
+
+-- CreateEnum
+CREATE TYPE "matching_run_trigger_enum" AS ENUM ('scheduled', 'admin');
+
+-- CreateTable
+CREATE TABLE "matching_runs" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "trigger_source" "matching_run_trigger_enum" NOT NULL,
+    "triggered_by" UUID,
+    "algorithm_version" VARCHAR(20) NOT NULL,
+    "solver" VARCHAR(20),
+    "dry_run" BOOLEAN NOT NULL DEFAULT false,
+    "status" "matching_run_status_enum" NOT NULL DEFAULT 'running',
+    "started_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(6),
+    "eligible_request_count" INTEGER,
+    "candidates_found" INTEGER,
+    "matches_created" INTEGER NOT NULL DEFAULT 0,
+    "requests_processed" INTEGER NOT NULL DEFAULT 0,
+    "matches_by_type" JSONB,
+    "score_distribution" JSONB,
+    "errors" JSONB,
+
+    CONSTRAINT "matching_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_matching_runs_started" ON "matching_runs"("started_at");
+
+-- CreateIndex
+CREATE INDEX "idx_matching_runs_status" ON "matching_runs"("status");
+
+-- AddForeignKey
+ALTER TABLE "matching_runs" ADD CONSTRAINT "matching_runs_triggered_by_fkey" FOREIGN KEY ("triggered_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "matching_configs" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "version" INTEGER NOT NULL,
+    "settings" JSONB NOT NULL,
+    "notes" VARCHAR(500),
+    "is_active" BOOLEAN NOT NULL DEFAULT false,
+    "created_by" UUID,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "activated_at" TIMESTAMP(6),
+
+    CONSTRAINT "matching_configs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "matching_configs_version_key" ON "matching_configs"("version");
+
+-- CreateIndex
+CREATE INDEX "idx_matching_configs_active" ON "matching_configs"("is_active");
+
+-- AddForeignKey
+ALTER TABLE "matching_configs" ADD CONSTRAINT "matching_configs_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+
+-- AlterTable
+ALTER TABLE "matching_runs" ADD COLUMN "config_version" INTEGER;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "transfer_matches" ADD COLUMN "score_breakdown" JSONB;
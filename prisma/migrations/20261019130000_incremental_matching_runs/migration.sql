@@ -0,0 +1,2 @@
+-- Record incremental passes queued when a request is submitted
+ALTER TYPE "matching_run_trigger_enum" ADD VALUE IF NOT EXISTS 'incremental';
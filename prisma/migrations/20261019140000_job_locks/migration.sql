@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "job_locks" (
+    "name" VARCHAR(100) NOT NULL,
+    "holder" VARCHAR(255) NOT NULL,
+    "context" JSONB,
+    "acquired_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "job_locks_pkey" PRIMARY KEY ("name")
+);
+
+-- Take a lease if it is free or its previous holder let it expire.
+-- Returns true when the caller now holds the lease.
+CREATE OR REPLACE FUNCTION acquire_job_lock(
+    p_name TEXT,
+    p_holder TEXT,
+    p_lease_seconds INTEGER,
+    p_context JSONB DEFAULT NULL
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_holder TEXT;
+BEGIN
+    INSERT INTO "job_locks" ("name", "holder", "context", "acquired_at", "expires_at")
+    VALUES (p_name, p_holder, p_context, now(), now() + make_interval(secs => p_lease_seconds))
+    ON CONFLICT ("name") DO UPDATE
+        SET "holder" = EXCLUDED."holder",
+            "context" = EXCLUDED."context",
+            "acquired_at" = EXCLUDED."acquired_at",
+            "expires_at" = EXCLUDED."expires_at"
+        WHERE "job_locks"."expires_at" < now()
+    RETURNING "holder" INTO v_holder;
+
+    RETURN v_holder IS NOT DISTINCT FROM p_holder;
+END;
+$$;
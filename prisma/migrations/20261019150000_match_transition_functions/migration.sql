@@ -0,0 +1,140 @@
+-- Create a match and its participants in one transaction.
+-- p_participants is an array of {transfer_request_id, user_id, swap_position}.
+-- Fails without writing anything if any request is no longer submitted or
+-- is already in a pending or accepted match.
+CREATE OR REPLACE FUNCTION create_transfer_match(
+    p_match_type match_type_enum,
+    p_compatibility_score INTEGER,
+    p_score_breakdown JSONB,
+    p_algorithm_version VARCHAR(20),
+    p_expires_at TIMESTAMP,
+    p_participants JSONB
+) RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_request_ids UUID[];
+    v_match_id UUID;
+BEGIN
+    SELECT array_agg((p->>'transfer_request_id')::UUID)
+    INTO v_request_ids
+    FROM jsonb_array_elements(p_participants) AS p;
+
+    -- Lock the requests so concurrent runs cannot book them twice
+    PERFORM 1 FROM transfer_requests
+    WHERE id = ANY(v_request_ids)
+    ORDER BY id
+    FOR UPDATE;
+
+    IF (
+        SELECT count(*) FROM transfer_requests
+        WHERE id = ANY(v_request_ids) AND status = 'submitted'
+    ) <> cardinality(v_request_ids) THEN
+        RAISE EXCEPTION 'Request is no longer submitted';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM transfer_match_participants tmp
+        JOIN transfer_matches tm ON tm.id = tmp.match_id
+        WHERE tmp.transfer_request_id = ANY(v_request_ids)
+          AND tm.status IN ('pending', 'accepted')
+    ) THEN
+        RAISE EXCEPTION 'Request is already in an active match';
+    END IF;
+
+    INSERT INTO transfer_matches (
+        match_type, compatibility_score, score_breakdown,
+        match_algorithm_version, status, expires_at
+    )
+    VALUES (
+        p_match_type, p_compatibility_score, p_score_breakdown,
+        p_algorithm_version, 'pending', p_expires_at
+    )
+    RETURNING id INTO v_match_id;
+
+    INSERT INTO transfer_match_participants (
+        match_id, transfer_request_id, user_id, swap_position, response_status
+    )
+    SELECT
+        v_match_id,
+        (p->>'transfer_request_id')::UUID,
+        (p->>'user_id')::UUID,
+        (p->>'swap_position')::INTEGER,
+        'pending'
+    FROM jsonb_array_elements(p_participants) AS p;
+
+    RETURN v_match_id;
+END;
+$$;
+
+-- Record a participant's response and apply its effect on the match and
+-- the participants' requests in one transaction.
+-- One rejection rejects the whole match and returns the requests to
+-- 'submitted'; once everyone accepts, the match is accepted and the requests
+-- become 'matched'. Returns the updated participant row.
+CREATE OR REPLACE FUNCTION respond_to_match(
+    p_match_id UUID,
+    p_user_id UUID,
+    p_response participant_response_enum
+) RETURNS transfer_match_participants
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_match_status match_status_enum;
+    v_participant transfer_match_participants;
+BEGIN
+    SELECT status INTO v_match_status
+    FROM transfer_matches
+    WHERE id = p_match_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Match not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_match_status <> 'pending' THEN
+        RAISE EXCEPTION 'Match is no longer pending';
+    END IF;
+
+    UPDATE transfer_match_participants
+    SET response_status = p_response,
+        responded_at = now()
+    WHERE match_id = p_match_id AND user_id = p_user_id
+    RETURNING * INTO v_participant;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User is not a participant in this match'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_response = 'rejected' THEN
+        UPDATE transfer_matches
+        SET status = 'rejected', updated_at = now()
+        WHERE id = p_match_id;
+
+        UPDATE transfer_requests
+        SET status = 'submitted'
+        WHERE id IN (
+            SELECT transfer_request_id FROM transfer_match_participants
+            WHERE match_id = p_match_id
+        );
+    ELSIF NOT EXISTS (
+        SELECT 1 FROM transfer_match_participants
+        WHERE match_id = p_match_id AND response_status <> 'accepted'
+    ) THEN
+        UPDATE transfer_matches
+        SET status = 'accepted', updated_at = now()
+        WHERE id = p_match_id;
+
+        UPDATE transfer_requests
+        SET status = 'matched'
+        WHERE id IN (
+            SELECT transfer_request_id FROM transfer_match_participants
+            WHERE match_id = p_match_id
+        );
+    END IF;
+
+    RETURN v_participant;
+END;
+$$;
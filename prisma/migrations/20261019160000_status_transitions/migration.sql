@@ -0,0 +1,176 @@
+-- Central table of allowed status moves for transfer requests, matches and
+-- match participants. Every status change is checked against it by the
+-- enforce_status_transition() trigger and recorded in audit_logs.
+CREATE TABLE "status_transitions" (
+    "entity_type" VARCHAR(50) NOT NULL,
+    "from_status" VARCHAR(30) NOT NULL,
+    "to_status" VARCHAR(30) NOT NULL,
+    "description" VARCHAR(255),
+
+    CONSTRAINT "status_transitions_pkey" PRIMARY KEY ("entity_type", "from_status", "to_status")
+);
+
+INSERT INTO "status_transitions" ("entity_type", "from_status", "to_status", "description") VALUES
+    ('transfer_request', 'draft', 'submitted', 'Teacher submits the request'),
+    ('transfer_request', 'submitted', 'under_review', 'Admin puts the request on hold for review'),
+    ('transfer_request', 'submitted', 'matched', 'Every participant accepted a match'),
+    ('transfer_request', 'submitted', 'withdrawn', 'Teacher withdraws the request'),
+    ('transfer_request', 'submitted', 'expired', 'Request reached its expiry date'),
+    ('transfer_request', 'submitted', 'rejected', 'Admin rejects the request'),
+    ('transfer_request', 'under_review', 'submitted', 'Review passed, back in the matching pool'),
+    ('transfer_request', 'under_review', 'rejected', 'Admin rejects the request'),
+    ('transfer_request', 'under_review', 'withdrawn', 'Teacher withdraws the request'),
+    ('transfer_request', 'under_review', 'expired', 'Request reached its expiry date'),
+    ('transfer_request', 'matched', 'submitted', 'Accepted match fell through, back in the matching pool'),
+    ('transfer_request', 'matched', 'accepted', 'Transfer approved'),
+    ('transfer_request', 'matched', 'completed', 'Transfer took place'),
+    ('transfer_request', 'accepted', 'completed', 'Transfer took place'),
+    ('transfer_request', 'expired', 'submitted', 'Teacher renews the request'),
+    ('transfer_match', 'pending', 'accepted', 'Every participant accepted'),
+    ('transfer_match', 'pending', 'rejected', 'A participant rejected'),
+    ('transfer_match', 'pending', 'expired', 'Not everyone responded in time'),
+    ('match_participant', 'pending', 'accepted', 'Participant accepts'),
+    ('match_participant', 'pending', 'rejected', 'Participant rejects'),
+    ('match_participant', 'accepted', 'rejected', 'Participant changes their mind while the match is pending');
+
+-- Who made the last status change (NULL for system jobs). Every status
+-- update must set it; participants' responses are attributed to the
+-- participant.
+ALTER TABLE "transfer_requests" ADD COLUMN "status_changed_by" UUID,
+ADD COLUMN "status_changed_at" TIMESTAMP(6);
+
+ALTER TABLE "transfer_matches" ADD COLUMN "status_changed_by" UUID,
+ADD COLUMN "status_changed_at" TIMESTAMP(6);
+
+-- TG_ARGV: entity type, status column
+CREATE OR REPLACE FUNCTION enforce_status_transition() RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_entity TEXT := TG_ARGV[0];
+    v_old_status TEXT := to_jsonb(OLD)->>TG_ARGV[1];
+    v_new_status TEXT := to_jsonb(NEW)->>TG_ARGV[1];
+    v_actor UUID;
+    v_entity_id UUID;
+BEGIN
+    IF v_old_status IS NOT DISTINCT FROM v_new_status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM status_transitions
+        WHERE entity_type = v_entity
+          AND from_status = v_old_status
+          AND to_status = v_new_status
+    ) THEN
+        RAISE EXCEPTION 'Cannot move % from % to %',
+            replace(v_entity, '_', ' '), v_old_status, v_new_status
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Fields are only resolved for the branch that runs, so each branch
+    -- may use columns of its own table
+    IF v_entity = 'match_participant' THEN
+        v_actor := NEW.user_id;
+        v_entity_id := NEW.match_id;
+    ELSE
+        v_actor := NEW.status_changed_by;
+        v_entity_id := NEW.id;
+        NEW.status_changed_at := now();
+    END IF;
+
+    INSERT INTO audit_logs (user_id, action, entity_type, entity_id, old_value, new_value)
+    VALUES (
+        v_actor,
+        'status_changed',
+        v_entity,
+        v_entity_id,
+        jsonb_build_object('status', v_old_status),
+        jsonb_build_object('status', v_new_status)
+    );
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER "transfer_requests_status_transition"
+    BEFORE UPDATE OF "status" ON "transfer_requests"
+    FOR EACH ROW EXECUTE FUNCTION enforce_status_transition('transfer_request', 'status');
+
+CREATE TRIGGER "transfer_matches_status_transition"
+    BEFORE UPDATE OF "status" ON "transfer_matches"
+    FOR EACH ROW EXECUTE FUNCTION enforce_status_transition('transfer_match', 'status');
+
+CREATE TRIGGER "transfer_match_participants_status_transition"
+    BEFORE UPDATE OF "response_status" ON "transfer_match_participants"
+    FOR EACH ROW EXECUTE FUNCTION enforce_status_transition('match_participant', 'response_status');
+
+-- Attribute match and request moves to the responding participant
+CREATE OR REPLACE FUNCTION respond_to_match(
+    p_match_id UUID,
+    p_user_id UUID,
+    p_response participant_response_enum
+) RETURNS transfer_match_participants
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_match_status match_status_enum;
+    v_participant transfer_match_participants;
+BEGIN
+    SELECT status INTO v_match_status
+    FROM transfer_matches
+    WHERE id = p_match_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Match not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_match_status <> 'pending' THEN
+        RAISE EXCEPTION 'Match is no longer pending';
+    END IF;
+
+    UPDATE transfer_match_participants
+    SET response_status = p_response,
+        responded_at = now()
+    WHERE match_id = p_match_id AND user_id = p_user_id
+    RETURNING * INTO v_participant;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User is not a participant in this match'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_response = 'rejected' THEN
+        UPDATE transfer_matches
+        SET status = 'rejected', status_changed_by = p_user_id, updated_at = now()
+        WHERE id = p_match_id;
+
+        -- Requests stay 'submitted' while a match is pending, so only
+        -- requests that moved on need to go back
+        UPDATE transfer_requests
+        SET status = 'submitted', status_changed_by = p_user_id
+        WHERE status <> 'submitted'
+          AND id IN (
+            SELECT transfer_request_id FROM transfer_match_participants
+            WHERE match_id = p_match_id
+          );
+    ELSIF NOT EXISTS (
+        SELECT 1 FROM transfer_match_participants
+        WHERE match_id = p_match_id AND response_status <> 'accepted'
+    ) THEN
+        UPDATE transfer_matches
+        SET status = 'accepted', status_changed_by = p_user_id, updated_at = now()
+        WHERE id = p_match_id;
+
+        UPDATE transfer_requests
+        SET status = 'matched', status_changed_by = p_user_id
+        WHERE id IN (
+            SELECT transfer_request_id FROM transfer_match_participants
+            WHERE match_id = p_match_id
+        );
+    END IF;
+
+    RETURN v_participant;
+END;
+$$;
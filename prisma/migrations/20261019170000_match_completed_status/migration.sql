@@ -0,0 +1,5 @@
+-- Kept apart from the functions that use them: new enum values cannot be
+-- used in the transaction that adds them
+ALTER TYPE "match_status_enum" ADD VALUE IF NOT EXISTS 'completed';
+ALTER TYPE "notification_type_enum" ADD VALUE IF NOT EXISTS 'transfer_confirmed';
+ALTER TYPE "notification_type_enum" ADD VALUE IF NOT EXISTS 'match_completed';
@@ -0,0 +1,81 @@
+-- AlterTable
+ALTER TABLE "transfer_match_participants" ADD COLUMN "transfer_confirmed_at" TIMESTAMP(6),
+ADD COLUMN "transfer_effective_date" DATE;
+
+-- AlterTable
+ALTER TABLE "transfer_matches" ADD COLUMN "completed_at" TIMESTAMP(6);
+
+INSERT INTO "status_transitions" ("entity_type", "from_status", "to_status", "description") VALUES
+    ('transfer_match', 'accepted', 'completed', 'Every participant confirmed their transfer letter');
+
+-- A participant confirms their official transfer letter was issued.
+-- Their request moves to 'accepted'; once every participant has confirmed,
+-- the requests and the match become 'completed'.
+-- Returns { participant, match_completed }.
+CREATE OR REPLACE FUNCTION confirm_transfer(
+    p_match_id UUID,
+    p_user_id UUID,
+    p_effective_date DATE DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_match_status match_status_enum;
+    v_participant transfer_match_participants;
+    v_completed BOOLEAN := false;
+BEGIN
+    SELECT status INTO v_match_status
+    FROM transfer_matches
+    WHERE id = p_match_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Match not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_match_status <> 'accepted' THEN
+        RAISE EXCEPTION 'Transfers can only be confirmed for accepted matches';
+    END IF;
+
+    UPDATE transfer_match_participants
+    SET transfer_confirmed_at = COALESCE(transfer_confirmed_at, now()),
+        transfer_effective_date = COALESCE(p_effective_date, transfer_effective_date)
+    WHERE match_id = p_match_id AND user_id = p_user_id
+    RETURNING * INTO v_participant;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User is not a participant in this match'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    UPDATE transfer_requests
+    SET status = 'accepted', status_changed_by = p_user_id
+    WHERE id = v_participant.transfer_request_id AND status = 'matched';
+
+    IF NOT EXISTS (
+        SELECT 1 FROM transfer_match_participants
+        WHERE match_id = p_match_id AND transfer_confirmed_at IS NULL
+    ) THEN
+        UPDATE transfer_requests
+        SET status = 'completed', status_changed_by = p_user_id
+        WHERE id IN (
+            SELECT transfer_request_id FROM transfer_match_participants
+            WHERE match_id = p_match_id
+        );
+
+        UPDATE transfer_matches
+        SET status = 'completed',
+            status_changed_by = p_user_id,
+            completed_at = now(),
+            updated_at = now()
+        WHERE id = p_match_id;
+
+        v_completed := true;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'participant', to_jsonb(v_participant),
+        'match_completed', v_completed
+    );
+END;
+$$;
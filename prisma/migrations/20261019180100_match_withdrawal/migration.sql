@@ -0,0 +1,143 @@
+-- AlterTable
+ALTER TABLE "transfer_match_participants" ADD COLUMN "withdrawal_reason" VARCHAR(500);
+
+-- Requests returned to the pool by someone else's withdrawal go first in
+-- the next matching run
+ALTER TABLE "transfer_requests" ADD COLUMN "rematch_priority" BOOLEAN NOT NULL DEFAULT false;
+
+INSERT INTO "status_transitions" ("entity_type", "from_status", "to_status", "description") VALUES
+    ('transfer_match', 'accepted', 'dissolved', 'A participant withdrew from the accepted match'),
+    ('match_participant', 'accepted', 'withdrawn', 'Participant withdraws from the accepted match'),
+    ('transfer_request', 'accepted', 'submitted', 'Accepted match fell through, back in the matching pool'),
+    ('transfer_request', 'matched', 'withdrawn', 'Teacher withdraws from an accepted match'),
+    ('transfer_request', 'accepted', 'withdrawn', 'Teacher withdraws from an accepted match');
+
+-- A participant backs out of an accepted match. The match is dissolved,
+-- the participant's request is withdrawn and everyone else's request goes
+-- back to 'submitted' with rematch priority. Returns the participant row.
+CREATE OR REPLACE FUNCTION withdraw_from_match(
+    p_match_id UUID,
+    p_user_id UUID,
+    p_reason VARCHAR(500) DEFAULT NULL
+) RETURNS transfer_match_participants
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_match_status match_status_enum;
+    v_participant transfer_match_participants;
+BEGIN
+    SELECT status INTO v_match_status
+    FROM transfer_matches
+    WHERE id = p_match_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Match not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_match_status <> 'accepted' THEN
+        RAISE EXCEPTION 'Only accepted matches can be withdrawn from';
+    END IF;
+
+    UPDATE transfer_match_participants
+    SET response_status = 'withdrawn',
+        responded_at = now(),
+        withdrawal_reason = p_reason
+    WHERE match_id = p_match_id AND user_id = p_user_id
+    RETURNING * INTO v_participant;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User is not a participant in this match'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    UPDATE transfer_matches
+    SET status = 'dissolved', status_changed_by = p_user_id, updated_at = now()
+    WHERE id = p_match_id;
+
+    UPDATE transfer_requests
+    SET status = 'withdrawn', status_changed_by = p_user_id
+    WHERE id = v_participant.transfer_request_id;
+
+    UPDATE transfer_requests
+    SET status = 'submitted', status_changed_by = p_user_id, rematch_priority = true
+    WHERE id IN (
+        SELECT transfer_request_id FROM transfer_match_participants
+        WHERE match_id = p_match_id AND user_id <> p_user_id
+    );
+
+    RETURN v_participant;
+END;
+$$;
+
+-- Same as before, and a request leaves the priority queue once it is in a
+-- new match
+CREATE OR REPLACE FUNCTION create_transfer_match(
+    p_match_type match_type_enum,
+    p_compatibility_score INTEGER,
+    p_score_breakdown JSONB,
+    p_algorithm_version VARCHAR(20),
+    p_expires_at TIMESTAMP,
+    p_participants JSONB
+) RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_request_ids UUID[];
+    v_match_id UUID;
+BEGIN
+    SELECT array_agg((p->>'transfer_request_id')::UUID)
+    INTO v_request_ids
+    FROM jsonb_array_elements(p_participants) AS p;
+
+    -- Lock the requests so concurrent runs cannot book them twice
+    PERFORM 1 FROM transfer_requests
+    WHERE id = ANY(v_request_ids)
+    ORDER BY id
+    FOR UPDATE;
+
+    IF (
+        SELECT count(*) FROM transfer_requests
+        WHERE id = ANY(v_request_ids) AND status = 'submitted'
+    ) <> cardinality(v_request_ids) THEN
+        RAISE EXCEPTION 'Request is no longer submitted';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM transfer_match_participants tmp
+        JOIN transfer_matches tm ON tm.id = tmp.match_id
+        WHERE tmp.transfer_request_id = ANY(v_request_ids)
+          AND tm.status IN ('pending', 'accepted')
+    ) THEN
+        RAISE EXCEPTION 'Request is already in an active match';
+    END IF;
+
+    INSERT INTO transfer_matches (
+        match_type, compatibility_score, score_breakdown,
+        match_algorithm_version, status, expires_at
+    )
+    VALUES (
+        p_match_type, p_compatibility_score, p_score_breakdown,
+        p_algorithm_version, 'pending', p_expires_at
+    )
+    RETURNING id INTO v_match_id;
+
+    INSERT INTO transfer_match_participants (
+        match_id, transfer_request_id, user_id, swap_position, response_status
+    )
+    SELECT
+        v_match_id,
+        (p->>'transfer_request_id')::UUID,
+        (p->>'user_id')::UUID,
+        (p->>'swap_position')::INTEGER,
+        'pending'
+    FROM jsonb_array_elements(p_participants) AS p;
+
+    UPDATE transfer_requests
+    SET rematch_priority = false
+    WHERE id = ANY(v_request_ids) AND rematch_priority;
+
+    RETURN v_match_id;
+END;
+$$;
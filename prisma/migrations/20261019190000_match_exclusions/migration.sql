@@ -0,0 +1,133 @@
+-- Combinations of requests that rejected a match together. The matching
+-- algorithm skips any cycle containing all of them until cooldown_until.
+CREATE TABLE "rejected_match_combinations" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "request_ids" UUID[] NOT NULL,
+    "match_id" UUID,
+    "rejected_by" UUID,
+    "cooldown_until" TIMESTAMP(6) NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rejected_match_combinations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_rejected_combinations_requests" ON "rejected_match_combinations" USING GIN ("request_ids");
+
+-- CreateIndex
+CREATE INDEX "idx_rejected_combinations_cooldown" ON "rejected_match_combinations"("cooldown_until");
+
+-- AddForeignKey
+ALTER TABLE "rejected_match_combinations" ADD CONSTRAINT "rejected_match_combinations_match_id_fkey" FOREIGN KEY ("match_id") REFERENCES "transfer_matches"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "rejected_match_combinations" ADD CONSTRAINT "rejected_match_combinations_rejected_by_fkey" FOREIGN KEY ("rejected_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+
+-- "Never match me with this person"
+CREATE TABLE "user_blocks" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "blocker_id" UUID NOT NULL,
+    "blocked_user_id" UUID NOT NULL,
+    "reason" VARCHAR(500),
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_blocks_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "user_blocks_not_self" CHECK ("blocker_id" <> "blocked_user_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_blocks_blocker_id_blocked_user_id_key" ON "user_blocks"("blocker_id", "blocked_user_id");
+
+-- CreateIndex
+CREATE INDEX "idx_user_blocks_blocked" ON "user_blocks"("blocked_user_id");
+
+-- AddForeignKey
+ALTER TABLE "user_blocks" ADD CONSTRAINT "user_blocks_blocker_id_fkey" FOREIGN KEY ("blocker_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "user_blocks" ADD CONSTRAINT "user_blocks_blocked_user_id_fkey" FOREIGN KEY ("blocked_user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- respond_to_match now also remembers rejected combinations, so the
+-- signature changes
+DROP FUNCTION IF EXISTS respond_to_match(UUID, UUID, participant_response_enum);
+
+CREATE OR REPLACE FUNCTION respond_to_match(
+    p_match_id UUID,
+    p_user_id UUID,
+    p_response participant_response_enum,
+    p_cooldown_days INTEGER DEFAULT 90
+) RETURNS transfer_match_participants
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_match_status match_status_enum;
+    v_participant transfer_match_participants;
+BEGIN
+    SELECT status INTO v_match_status
+    FROM transfer_matches
+    WHERE id = p_match_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Match not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_match_status <> 'pending' THEN
+        RAISE EXCEPTION 'Match is no longer pending';
+    END IF;
+
+    UPDATE transfer_match_participants
+    SET response_status = p_response,
+        responded_at = now()
+    WHERE match_id = p_match_id AND user_id = p_user_id
+    RETURNING * INTO v_participant;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User is not a participant in this match'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_response = 'rejected' THEN
+        UPDATE transfer_matches
+        SET status = 'rejected', status_changed_by = p_user_id, updated_at = now()
+        WHERE id = p_match_id;
+
+        -- Requests stay 'submitted' while a match is pending, so only
+        -- requests that moved on need to go back
+        UPDATE transfer_requests
+        SET status = 'submitted', status_changed_by = p_user_id
+        WHERE status <> 'submitted'
+          AND id IN (
+            SELECT transfer_request_id FROM transfer_match_participants
+            WHERE match_id = p_match_id
+          );
+
+        INSERT INTO rejected_match_combinations (
+            request_ids, match_id, rejected_by, cooldown_until
+        )
+        SELECT
+            array_agg(transfer_request_id ORDER BY transfer_request_id),
+            p_match_id,
+            p_user_id,
+            now() + make_interval(days => p_cooldown_days)
+        FROM transfer_match_participants
+        WHERE match_id = p_match_id;
+    ELSIF NOT EXISTS (
+        SELECT 1 FROM transfer_match_participants
+        WHERE match_id = p_match_id AND response_status <> 'accepted'
+    ) THEN
+        UPDATE transfer_matches
+        SET status = 'accepted', status_changed_by = p_user_id, updated_at = now()
+        WHERE id = p_match_id;
+
+        UPDATE transfer_requests
+        SET status = 'matched', status_changed_by = p_user_id
+        WHERE id IN (
+            SELECT transfer_request_id FROM transfer_match_participants
+            WHERE match_id = p_match_id
+        );
+    END IF;
+
+    RETURN v_participant;
+END;
+$$;
@@ -0,0 +1,4 @@
+-- Kept apart from the columns that use them: new enum values cannot be
+-- used in the transaction that adds them
+ALTER TYPE "notification_type_enum" ADD VALUE IF NOT EXISTS 'match_expired';
+ALTER TYPE "notification_type_enum" ADD VALUE IF NOT EXISTS 'match_expiry_reminder';
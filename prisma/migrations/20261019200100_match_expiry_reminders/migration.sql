@@ -0,0 +1,5 @@
+-- Reminder offsets (hours before expiry) already sent to each participant,
+-- so every reminder goes out once even if the job runs late or twice
+ALTER TABLE "transfer_match_participants"
+  ADD COLUMN "expiry_reminders_sent" INTEGER[] NOT NULL DEFAULT '{}';
+
@@ -0,0 +1,3 @@
+-- Kept apart from the functions that use it: new enum values cannot be
+-- used in the transaction that adds them
+ALTER TYPE "notification_type_enum" ADD VALUE IF NOT EXISTS 'request_expiry_warning';
@@ -0,0 +1,32 @@
+-- When the owner was warned about the coming expiry (cleared on renewal so
+-- the next period is warned about too) and when the request was last renewed
+ALTER TABLE "transfer_requests" ADD COLUMN "expiry_warning_sent_at" TIMESTAMP(6),
+ADD COLUMN "renewed_at" TIMESTAMP(6);
+
+CREATE INDEX "idx_transfer_requests_expires" ON "transfer_requests"("expires_at");
+
+-- Expire every active request past its expiry date. Requests in a pending
+-- or accepted match are left alone until the match is resolved, so a
+-- response never fails because one of its requests expired meanwhile.
+-- Returns the expired requests.
+CREATE OR REPLACE FUNCTION expire_transfer_requests()
+RETURNS TABLE (id UUID, user_id UUID)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE transfer_requests tr
+    SET status = 'expired', status_changed_by = NULL, updated_at = now()
+    WHERE tr.status IN ('submitted', 'under_review')
+      AND tr.deleted_at IS NULL
+      AND tr.expires_at < now()
+      AND NOT EXISTS (
+          SELECT 1
+          FROM transfer_match_participants p
+          JOIN transfer_matches m ON m.id = p.match_id
+          WHERE p.transfer_request_id = tr.id
+            AND m.status IN ('pending', 'accepted')
+      )
+    RETURNING tr.id, tr.user_id;
+END;
+$$;
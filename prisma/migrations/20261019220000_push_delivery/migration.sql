@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "device_platform_enum" AS ENUM ('ios', 'android');
+
+-- CreateEnum
+CREATE TYPE "delivery_status_enum" AS ENUM ('pending', 'sent', 'failed', 'skipped');
+
+-- Push tokens of the devices a user is signed in on. A token belongs to one
+-- device, so signing in as someone else moves it to the new user.
+CREATE TABLE "device_tokens" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "user_id" UUID NOT NULL,
+    "token" VARCHAR(255) NOT NULL,
+    "platform" "device_platform_enum" NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "last_used_at" TIMESTAMP(6),
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "device_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "device_tokens_token_key" ON "device_tokens"("token");
+
+-- CreateIndex
+CREATE INDEX "idx_device_tokens_user" ON "device_tokens"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "device_tokens" ADD CONSTRAINT "device_tokens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- Delivery of a notification over one channel, retried until sent or out
+-- of attempts
+CREATE TABLE "notification_deliveries" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "notification_id" UUID NOT NULL,
+    "channel" VARCHAR(20) NOT NULL,
+    "status" "delivery_status_enum" NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "next_attempt_at" TIMESTAMP(6),
+    "sent_at" TIMESTAMP(6),
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notification_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_deliveries_notification_id_channel_key" ON "notification_deliveries"("notification_id", "channel");
+
+-- CreateIndex
+CREATE INDEX "idx_notification_deliveries_due" ON "notification_deliveries"("status", "next_attempt_at");
+
+-- AddForeignKey
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_notification_id_fkey" FOREIGN KEY ("notification_id") REFERENCES "notifications"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
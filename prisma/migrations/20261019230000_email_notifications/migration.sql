@@ -0,0 +1,7 @@
+-- Values the notification text was built from, so every channel can render
+-- it in the recipient's language
+ALTER TABLE "notifications" ADD COLUMN "data" JSONB;
+
+-- Language for emails (si, ta or en); NULL follows the medium of instruction
+ALTER TABLE "user_preferences" ADD COLUMN "preferred_language" VARCHAR(2),
+ADD CONSTRAINT "user_preferences_preferred_language_check" CHECK ("preferred_language" IN ('si', 'ta', 'en'));
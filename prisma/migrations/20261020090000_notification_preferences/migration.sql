@@ -0,0 +1,8 @@
+-- Channels each notification type is turned off for, e.g.
+-- {"match_accepted": ["email"]}
+ALTER TABLE "user_preferences" ADD COLUMN "notification_opt_outs" JSONB NOT NULL DEFAULT '{}',
+-- Push is held back between these times (Asia/Colombo); the window may
+-- cross midnight. Both NULL means no quiet hours.
+ADD COLUMN "quiet_hours_start" TIME(0),
+ADD COLUMN "quiet_hours_end" TIME(0),
+ADD CONSTRAINT "user_preferences_quiet_hours_check" CHECK (("quiet_hours_start" IS NULL) = ("quiet_hours_end" IS NULL));
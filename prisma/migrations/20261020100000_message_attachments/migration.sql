@@ -0,0 +1,38 @@
+-- Files shared in a match chat. The file itself lives in the private
+-- "chat-attachments" storage bucket under <match_id>/<attachment_id>.
+CREATE TABLE "match_message_attachments" (
+    "id" UUID NOT NULL,
+    "message_id" UUID NOT NULL,
+    "storage_path" TEXT NOT NULL,
+    "file_name" VARCHAR(255) NOT NULL,
+    "mime_type" VARCHAR(100) NOT NULL,
+    "size_bytes" INTEGER NOT NULL,
+    "width" INTEGER,
+    "height" INTEGER,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "match_message_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_match_message_attachments_message" ON "match_message_attachments"("message_id");
+
+-- AddForeignKey
+ALTER TABLE "match_message_attachments" ADD CONSTRAINT "match_message_attachments_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "match_messages"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- Private bucket: files are only reachable through signed URLs the API
+-- hands to match participants. Limits mirror the API's.
+INSERT INTO storage.buckets ("id", "name", "public", "file_size_limit", "allowed_mime_types")
+VALUES (
+    'chat-attachments',
+    'chat-attachments',
+    false,
+    5242880,
+    ARRAY[
+        'image/jpeg',
+        'application/pdf',
+        'application/msword',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    ]
+)
+ON CONFLICT ("id") DO NOTHING;
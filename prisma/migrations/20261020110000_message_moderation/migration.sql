@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "message_report_reason_enum" AS ENUM ('harassment', 'spam', 'scam', 'inappropriate', 'other');
+
+-- CreateEnum
+CREATE TYPE "message_report_status_enum" AS ENUM ('open', 'actioned', 'dismissed');
+
+-- Senders can edit or delete their messages for a short while; admins can
+-- hide reported ones. Deleted and hidden messages keep their text for
+-- moderation but the API no longer returns it.
+ALTER TABLE "match_messages" ADD COLUMN "edited_at" TIMESTAMP(6),
+ADD COLUMN "deleted_at" TIMESTAMP(6),
+ADD COLUMN "hidden_at" TIMESTAMP(6);
+
+-- A participant's abuse report on a message, queued for admins
+CREATE TABLE "message_reports" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "message_id" UUID NOT NULL,
+    "reporter_id" UUID NOT NULL,
+    "reason" "message_report_reason_enum" NOT NULL,
+    "details" TEXT,
+    "status" "message_report_status_enum" NOT NULL DEFAULT 'open',
+    "action" VARCHAR(20),
+    "resolved_by" UUID,
+    "resolved_at" TIMESTAMP(6),
+    "resolution_note" TEXT,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_reports_message_id_reporter_id_key" ON "message_reports"("message_id", "reporter_id");
+
+-- CreateIndex
+CREATE INDEX "idx_message_reports_queue" ON "message_reports"("status", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "message_reports" ADD CONSTRAINT "message_reports_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "match_messages"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "message_reports" ADD CONSTRAINT "message_reports_reporter_id_fkey" FOREIGN KEY ("reporter_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "message_reports" ADD CONSTRAINT "message_reports_resolved_by_fkey" FOREIGN KEY ("resolved_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
@@ -0,0 +1,6 @@
+-- Chat history pages by (created_at, id) and offline sync reads changes by
+-- (updated_at, id), both within one match
+CREATE INDEX "idx_match_messages_match_created" ON "match_messages"("match_id", "created_at", "id");
+
+-- CreateIndex
+CREATE INDEX "idx_match_messages_match_updated" ON "match_messages"("match_id", "updated_at", "id");
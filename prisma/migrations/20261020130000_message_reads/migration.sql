@@ -0,0 +1,104 @@
+-- Who has read which message. match_messages.is_read is kept, meaning
+-- "read by every other participant", for older app versions.
+CREATE TABLE "match_message_reads" (
+    "message_id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "read_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "match_message_reads_pkey" PRIMARY KEY ("message_id", "user_id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_match_message_reads_user" ON "match_message_reads"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "match_message_reads" ADD CONSTRAINT "match_message_reads_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "match_messages"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "match_message_reads" ADD CONSTRAINT "match_message_reads_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- Messages already marked read count as read by every other participant
+INSERT INTO "match_message_reads" ("message_id", "user_id", "read_at")
+SELECT m.id, p.user_id, COALESCE(m.updated_at, m.created_at, now())
+FROM match_messages m
+JOIN transfer_match_participants p ON p.match_id = m.match_id
+WHERE m.is_read = true
+  AND p.user_id <> m.sender_id
+ON CONFLICT DO NOTHING;
+
+-- Mark one message (p_message_id) or every message in a match as read by a
+-- user. Their own messages are skipped. Touches updated_at so offline sync
+-- picks up the new read receipts, and sets is_read once every other
+-- participant has read the message. Returns the newly read messages.
+CREATE OR REPLACE FUNCTION mark_match_messages_read(
+    p_match_id UUID,
+    p_user_id UUID,
+    p_message_id UUID DEFAULT NULL
+)
+RETURNS TABLE (message_id UUID)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_message_ids UUID[];
+BEGIN
+    WITH inserted AS (
+        INSERT INTO match_message_reads (message_id, user_id)
+        SELECT m.id, p_user_id
+        FROM match_messages m
+        WHERE m.match_id = p_match_id
+          AND m.sender_id <> p_user_id
+          AND (p_message_id IS NULL OR m.id = p_message_id)
+        ON CONFLICT DO NOTHING
+        RETURNING match_message_reads.message_id
+    )
+    SELECT array_agg(inserted.message_id) INTO v_message_ids FROM inserted;
+
+    IF v_message_ids IS NULL THEN
+        RETURN;
+    END IF;
+
+    UPDATE match_messages m
+    SET updated_at = now(),
+        is_read = NOT EXISTS (
+            SELECT 1
+            FROM transfer_match_participants p
+            WHERE p.match_id = m.match_id
+              AND p.user_id <> m.sender_id
+              AND NOT EXISTS (
+                  SELECT 1
+                  FROM match_message_reads r
+                  WHERE r.message_id = m.id
+                    AND r.user_id = p.user_id
+              )
+        )
+    WHERE m.id = ANY(v_message_ids);
+
+    RETURN QUERY SELECT unnest(v_message_ids);
+END;
+$$;
+
+-- Unread messages per match for one user: messages from others they have
+-- not read, leaving out deleted and hidden ones. Matches without unread
+-- messages are omitted.
+CREATE OR REPLACE FUNCTION count_unread_messages(
+    p_user_id UUID,
+    p_match_ids UUID[]
+)
+RETURNS TABLE (match_id UUID, unread_count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT m.match_id, count(*)
+    FROM match_messages m
+    WHERE m.match_id = ANY(p_match_ids)
+      AND m.sender_id <> p_user_id
+      AND m.deleted_at IS NULL
+      AND m.hidden_at IS NULL
+      AND NOT EXISTS (
+          SELECT 1
+          FROM match_message_reads r
+          WHERE r.message_id = m.id
+            AND r.user_id = p_user_id
+      )
+    GROUP BY m.match_id;
+$$;
@@ -0,0 +1,63 @@
+-- New chat messages waiting to be sent as one message_received
+-- notification per recipient and match. The first message opens the
+-- window (send_after); later ones only add to the count.
+CREATE TABLE "message_notification_digests" (
+    "user_id" UUID NOT NULL,
+    "match_id" UUID NOT NULL,
+    "message_count" INTEGER NOT NULL DEFAULT 1,
+    "sender_ids" UUID[] NOT NULL,
+    "send_after" TIMESTAMP(6) NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_notification_digests_pkey" PRIMARY KEY ("user_id", "match_id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_message_notification_digests_due" ON "message_notification_digests"("send_after");
+
+-- AddForeignKey
+ALTER TABLE "message_notification_digests" ADD CONSTRAINT "message_notification_digests_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "message_notification_digests" ADD CONSTRAINT "message_notification_digests_match_id_fkey" FOREIGN KEY ("match_id") REFERENCES "transfer_matches"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- Add a new message from p_sender_id to the digests of its recipients,
+-- opening a p_window_seconds window for recipients without one
+CREATE OR REPLACE FUNCTION queue_message_digests(
+    p_match_id UUID,
+    p_sender_id UUID,
+    p_user_ids UUID[],
+    p_window_seconds INTEGER
+)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+    INSERT INTO message_notification_digests (user_id, match_id, sender_ids, send_after)
+    SELECT u.user_id, p_match_id, ARRAY[p_sender_id], now() + make_interval(secs => p_window_seconds)
+    FROM unnest(p_user_ids) AS u(user_id)
+    ON CONFLICT (user_id, match_id) DO UPDATE
+    SET message_count = message_notification_digests.message_count + 1,
+        sender_ids = CASE
+            WHEN p_sender_id = ANY(message_notification_digests.sender_ids)
+                THEN message_notification_digests.sender_ids
+            ELSE message_notification_digests.sender_ids || p_sender_id
+        END;
+$$;
+
+-- Remove and return up to p_limit digests whose window has closed. Rows
+-- another caller is taking are skipped, so each digest is sent once.
+CREATE OR REPLACE FUNCTION take_due_message_digests(p_limit INTEGER)
+RETURNS SETOF message_notification_digests
+LANGUAGE sql
+AS $$
+    DELETE FROM message_notification_digests d
+    WHERE (d.user_id, d.match_id) IN (
+        SELECT due.user_id, due.match_id
+        FROM message_notification_digests due
+        WHERE due.send_after <= now()
+        ORDER BY due.send_after
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING d.*;
+$$;
@@ -0,0 +1,6 @@
+-- Dry runs are no longer recorded; drop the ones that were, since they
+-- counted planned matches as created
+DELETE FROM "matching_runs" WHERE "dry_run" = true;
+
+-- AlterTable
+ALTER TABLE "matching_runs" DROP COLUMN "dry_run";
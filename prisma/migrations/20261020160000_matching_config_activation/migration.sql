@@ -0,0 +1,37 @@
+-- Keep only the newest of any versions left active together
+UPDATE "matching_configs" SET "is_active" = false
+WHERE "is_active" = true
+  AND "version" <> (SELECT max("version") FROM "matching_configs" WHERE "is_active" = true);
+
+-- At most one active version
+DROP INDEX "idx_matching_configs_active";
+CREATE UNIQUE INDEX "matching_configs_one_active_key" ON "matching_configs"("is_active") WHERE "is_active" = true;
+
+-- Make a version the active one in a single transaction, so runs never
+-- see no active version. Concurrent activations wait for each other.
+CREATE OR REPLACE FUNCTION activate_matching_config(
+    p_version INTEGER
+) RETURNS matching_configs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_config matching_configs;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('activate_matching_config'));
+
+    UPDATE matching_configs
+    SET is_active = false
+    WHERE is_active = true AND version <> p_version;
+
+    UPDATE matching_configs
+    SET is_active = true, activated_at = now()
+    WHERE version = p_version
+    RETURNING * INTO v_config;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Matching config not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_config;
+END;
+$$;
@@ -0,0 +1,16 @@
+-- Submitted requests waiting for an incremental matching pass, worked
+-- through by the matching scheduler so nothing is lost on a restart
+CREATE TABLE "matching_queue" (
+    "request_id" UUID NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "queued_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "next_attempt_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "matching_queue_pkey" PRIMARY KEY ("request_id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_matching_queue_due" ON "matching_queue"("next_attempt_at");
+
+-- AddForeignKey
+ALTER TABLE "matching_queue" ADD CONSTRAINT "matching_queue_request_id_fkey" FOREIGN KEY ("request_id") REFERENCES "transfer_requests"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,27 @@
+-- How many times sending a digest has failed
+ALTER TABLE "message_notification_digests" ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 0;
+
+-- Put back digests taken by take_due_message_digests that could not be
+-- sent, due again after p_retry_seconds. Messages queued for the same
+-- recipient and match in the meantime are merged in.
+CREATE OR REPLACE FUNCTION requeue_message_digests(
+    p_digests JSONB,
+    p_retry_seconds INTEGER
+)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+    INSERT INTO message_notification_digests (user_id, match_id, message_count, sender_ids, send_after, attempts)
+    SELECT d.user_id, d.match_id, d.message_count, d.sender_ids,
+           now() + make_interval(secs => p_retry_seconds), d.attempts + 1
+    FROM jsonb_to_recordset(p_digests)
+        AS d(user_id UUID, match_id UUID, message_count INTEGER, sender_ids UUID[], attempts INTEGER)
+    ON CONFLICT (user_id, match_id) DO UPDATE
+    SET message_count = message_notification_digests.message_count + EXCLUDED.message_count,
+        sender_ids = EXCLUDED.sender_ids || ARRAY(
+            SELECT s FROM unnest(message_notification_digests.sender_ids) AS s
+            WHERE s <> ALL(EXCLUDED.sender_ids)
+        ),
+        send_after = LEAST(message_notification_digests.send_after, EXCLUDED.send_after),
+        attempts = EXCLUDED.attempts;
+$$;
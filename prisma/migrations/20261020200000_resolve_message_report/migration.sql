@@ -0,0 +1,76 @@
+-- Resolve a message report in one transaction: hide the message, hide it
+-- and suspend the sender, or dismiss it; record it in audit_logs and
+-- settle every open report on the message. The message row is locked, so
+-- concurrent resolutions of its reports run one after the other and only
+-- the first acts.
+-- Returns { report_id, message_id, match_id, sender_id, action }.
+CREATE OR REPLACE FUNCTION resolve_message_report(
+    p_report_id UUID,
+    p_admin_id UUID,
+    p_action VARCHAR,
+    p_note TEXT DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_message match_messages;
+    v_status message_report_status_enum;
+    v_details JSONB := jsonb_build_object('report_id', p_report_id, 'note', p_note);
+BEGIN
+    SELECT m.* INTO v_message
+    FROM match_messages m
+    JOIN message_reports r ON r.message_id = m.id
+    WHERE r.id = p_report_id
+    FOR UPDATE OF m;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Report not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT status INTO v_status FROM message_reports WHERE id = p_report_id;
+
+    IF v_status <> 'open' THEN
+        RAISE EXCEPTION 'This report has already been resolved';
+    END IF;
+
+    IF p_action <> 'dismiss' THEN
+        UPDATE match_messages
+        SET hidden_at = now(), updated_at = now()
+        WHERE id = v_message.id AND hidden_at IS NULL;
+
+        INSERT INTO audit_logs (user_id, action, entity_type, entity_id, new_value)
+        VALUES (p_admin_id, 'message_hidden', 'match_message', v_message.id, v_details);
+    END IF;
+
+    IF p_action = 'suspend' THEN
+        UPDATE users
+        SET is_active = false, updated_at = now()
+        WHERE id = v_message.sender_id;
+
+        INSERT INTO audit_logs (user_id, action, entity_type, entity_id, new_value)
+        VALUES (p_admin_id, 'user_suspended', 'user', v_message.sender_id, v_details);
+    END IF;
+
+    IF p_action = 'dismiss' THEN
+        INSERT INTO audit_logs (user_id, action, entity_type, entity_id, new_value)
+        VALUES (p_admin_id, 'message_report_dismissed', 'match_message', v_message.id, v_details);
+    END IF;
+
+    -- Settle the other participants' reports on this message too
+    UPDATE message_reports
+    SET status = CASE WHEN p_action = 'dismiss' THEN 'dismissed' ELSE 'actioned' END::message_report_status_enum,
+        action = p_action,
+        resolved_by = p_admin_id,
+        resolved_at = now(),
+        resolution_note = p_note
+    WHERE message_id = v_message.id AND status = 'open';
+
+    RETURN jsonb_build_object(
+        'report_id', p_report_id,
+        'message_id', v_message.id,
+        'match_id', v_message.match_id,
+        'sender_id', v_message.sender_id,
+        'action', p_action
+    );
+END;
+$$;
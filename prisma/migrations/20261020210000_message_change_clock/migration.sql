@@ -0,0 +1,16 @@
+-- Offline sync reads a match's messages by updated_at, so every insert and
+-- update stamps it from one clock, the database's. clock_timestamp() rather
+-- than now() (the transaction start) keeps the stamp close to the commit;
+-- sync also leaves out the last few seconds for changes still committing.
+CREATE OR REPLACE FUNCTION stamp_match_message_change() RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    NEW.updated_at := clock_timestamp();
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER "match_messages_stamp_change"
+    BEFORE INSERT OR UPDATE ON "match_messages"
+    FOR EACH ROW EXECUTE FUNCTION stamp_match_message_change();
@@ -14,6 +14,7 @@ import { MatchesModule } from './matches/matches.module';
 import { ChatModule } from './chat/chat.module';
 import { AppVersionModule } from './app-version/app-version.module';
 import { PurchasesModule } from './purchases/purchases.module';
+import { NotificationsModule } from './notifications/notifications.module';
 import { AllExceptionsFilter } from './common/filters/http-exception.filter';
 import { TransformInterceptor } from './common/interceptors/response.interceptor';
 
@@ -39,6 +40,7 @@ import { TransformInterceptor } from './common/interceptors/response.interceptor
     ChatModule,
     AppVersionModule,
     PurchasesModule,
+    NotificationsModule,
   ],
   controllers: [AppController],
   providers: [
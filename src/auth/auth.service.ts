@@ -146,6 +146,10 @@ export class AuthService {
       .eq('id', data.user.id)
       .single();
 
+    if (userProfile?.is_active === false) {
+      throw new UnauthorizedException('This account has been suspended');
+    }
+
     return {
       accessToken,
       user: userProfile,
@@ -173,6 +177,23 @@ export class AuthService {
     };
   }
 
+  /**
+   * Whether a moderator suspended the account (`users.is_active`)
+   * Issued tokens stay valid until they expire, so every request and chat
+   * connection checks this.
+   */
+  async isSuspended(userId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('is_active')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+
+    return data?.is_active === false;
+  }
+
   private generateToken(userId: string, email: string): string {
     const payload = { sub: userId, email };
     return this.jwtService.sign(payload, {
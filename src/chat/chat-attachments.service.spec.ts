@@ -0,0 +1,115 @@
+import { BadRequestException } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import sharp from 'sharp';
+import { ChatAttachmentsService } from './chat-attachments.service';
+
+describe('ChatAttachmentsService', () => {
+  let stored: Map<string, { buffer: Buffer; contentType: string }>;
+  let service: ChatAttachmentsService;
+
+  beforeEach(() => {
+    stored = new Map();
+    const bucket = {
+      upload: (path: string, buffer: Buffer, options: any) => {
+        stored.set(path, { buffer, contentType: options.contentType });
+        return Promise.resolve({ error: null });
+      },
+      remove: (paths: string[]) => {
+        paths.forEach((path) => stored.delete(path));
+        return Promise.resolve({ error: null });
+      },
+    };
+    const supabase = { storage: { from: () => bucket } };
+
+    service = new ChatAttachmentsService(supabase as unknown as SupabaseClient);
+  });
+
+  it('re-encodes images as downscaled JPEGs', async () => {
+    const png = await sharp({
+      create: { width: 3200, height: 1600, channels: 3, background: 'red' },
+    })
+      .png()
+      .toBuffer();
+
+    const [attachment] = await service.upload('match-1', [
+      {
+        fileName: 'school.png',
+        mimeType: 'image/png',
+        base64Data: png.toString('base64'),
+      },
+    ]);
+
+    expect(attachment).toMatchObject({
+      fileName: 'school.jpg',
+      mimeType: 'image/jpeg',
+      width: 1600,
+      height: 800,
+    });
+    expect(attachment.storagePath).toBe(`match-1/${attachment.id}.jpg`);
+    expect(stored.get(attachment.storagePath)?.contentType).toBe('image/jpeg');
+  });
+
+  it('keeps documents as uploaded under a clean file name', async () => {
+    const pdf = Buffer.from('%PDF-1.7 transfer application');
+
+    const [attachment] = await service.upload('match-1', [
+      {
+        fileName: '../../forms/application.PDF',
+        mimeType: 'application/pdf',
+        base64Data: pdf.toString('base64'),
+      },
+    ]);
+
+    expect(attachment.fileName).toBe('application.pdf');
+    expect(attachment.sizeBytes).toBe(pdf.length);
+    expect(stored.get(attachment.storagePath)?.buffer.equals(pdf)).toBe(true);
+  });
+
+  it('rejects files that are not what they claim, storing nothing', async () => {
+    const upload = service.upload('match-1', [
+      {
+        fileName: 'application.pdf',
+        mimeType: 'application/pdf',
+        base64Data: Buffer.from('%PDF-1.7').toString('base64'),
+      },
+      {
+        fileName: 'script.pdf',
+        mimeType: 'application/pdf',
+        base64Data: Buffer.from('#!/bin/sh').toString('base64'),
+      },
+    ]);
+
+    await expect(upload).rejects.toThrow(BadRequestException);
+    expect(stored.size).toBe(0);
+  });
+
+  it('rejects files over the size limit', async () => {
+    const large = Buffer.alloc(5 * 1024 * 1024 + 1);
+    large.write('%PDF-');
+
+    await expect(
+      service.upload('match-1', [
+        {
+          fileName: 'scan.pdf',
+          mimeType: 'application/pdf',
+          base64Data: large.toString('base64'),
+        },
+      ]),
+    ).rejects.toThrow('exceeds the 5MB limit');
+  });
+
+  it('keeps the files of one message within the body size budget', async () => {
+    const pdf = Buffer.alloc(4 * 1024 * 1024);
+    pdf.write('%PDF-');
+    const file = {
+      fileName: 'scan.pdf',
+      mimeType: 'application/pdf',
+      base64Data: pdf.toString('base64'),
+    };
+
+    await expect(service.upload('match-1', [file, file])).rejects.toThrow(
+      'total at most 7MB',
+    );
+    expect(stored.size).toBe(0);
+  });
+});
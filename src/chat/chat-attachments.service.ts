@@ -0,0 +1,313 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
+import { compressToJpeg } from '../common/utils/images';
+
+// Private bucket, see the message_attachments migration
+const CHAT_ATTACHMENTS_BUCKET = 'chat-attachments';
+
+// Chat image settings
+const CHAT_IMAGE_SIZE = 1600; // longest side in pixels
+const CHAT_IMAGE_QUALITY = 80; // JPEG quality (0-100)
+
+// How long a signed attachment URL works
+const SIGNED_URL_TTL_SECONDS = 5 * 60;
+
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024; // 5MB per file
+export const MAX_ATTACHMENTS_PER_MESSAGE = 3;
+
+// Files arrive base64 encoded (a third larger) in a JSON body capped at
+// 10MB, so all files of one message share this budget
+export const MAX_MESSAGE_ATTACHMENT_BYTES = 7 * 1024 * 1024;
+
+// Images are re-encoded as JPEG, so any of these is stored as image/jpeg
+const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Documents are stored as uploaded, after checking the file really is one
+const DOCUMENT_TYPES: Record<string, { extension: string; signature: Buffer }> =
+  {
+    'application/pdf': {
+      extension: 'pdf',
+      signature: Buffer.from('%PDF-'),
+    },
+    'application/msword': {
+      extension: 'doc',
+      signature: Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]),
+    },
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': {
+      extension: 'docx',
+      signature: Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+    },
+  };
+
+export const ATTACHMENT_MIME_TYPES = [
+  ...IMAGE_MIME_TYPES,
+  ...Object.keys(DOCUMENT_TYPES),
+];
+
+export interface AttachmentUpload {
+  fileName: string;
+  mimeType: string;
+  base64Data: string;
+}
+
+export interface MessageAttachment {
+  id: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  width?: number | null;
+  height?: number | null;
+}
+
+/**
+ * A file uploaded to storage, waiting for its message to be saved
+ */
+export interface UploadedAttachment {
+  id: string;
+  storagePath: string;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Files shared in match chats (`match_message_attachments`)
+ * Files are kept in a private bucket and only handed out as short-lived
+ * signed URLs; callers check match access first.
+ */
+@Injectable()
+export class ChatAttachmentsService {
+  private readonly logger = new Logger(ChatAttachmentsService.name);
+
+  constructor(@Inject('SUPABASE_CLIENT') private supabase: SupabaseClient) {}
+
+  /**
+   * Validate and store the files of a new message
+   * Nothing is left in storage if any file is rejected or fails to upload.
+   */
+  async upload(
+    matchId: string,
+    files: AttachmentUpload[],
+  ): Promise<UploadedAttachment[]> {
+    if (files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      throw new BadRequestException(
+        `A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`,
+      );
+    }
+
+    const totalBytes = files.reduce(
+      (sum, file) => sum + Buffer.byteLength(file.base64Data, 'base64'),
+      0,
+    );
+    if (totalBytes > MAX_MESSAGE_ATTACHMENT_BYTES) {
+      throw new BadRequestException(
+        `Attachments of one message can total at most ${toMegabytes(MAX_MESSAGE_ATTACHMENT_BYTES)}MB`,
+      );
+    }
+
+    const prepared = await Promise.all(
+      files.map((file) => this.prepare(matchId, file)),
+    );
+
+    const uploaded: UploadedAttachment[] = [];
+    for (const { buffer, ...attachment } of prepared) {
+      const { error } = await this.supabase.storage
+        .from(CHAT_ATTACHMENTS_BUCKET)
+        .upload(attachment.storagePath, buffer, {
+          contentType: attachment.mimeType,
+        });
+
+      if (error) {
+        await this.removeFiles(uploaded);
+        throw new BadRequestException(
+          error.message || 'Failed to upload attachment',
+        );
+      }
+      uploaded.push(attachment);
+    }
+
+    return uploaded;
+  }
+
+  /**
+   * Record uploaded files against their message
+   */
+  async saveAttachments(
+    messageId: string,
+    uploaded: UploadedAttachment[],
+  ): Promise<MessageAttachment[]> {
+    const { data, error } = await this.supabase
+      .from('match_message_attachments')
+      .insert(
+        uploaded.map((attachment) => ({
+          id: attachment.id,
+          message_id: messageId,
+          storage_path: attachment.storagePath,
+          file_name: attachment.fileName,
+          mime_type: attachment.mimeType,
+          size_bytes: attachment.sizeBytes,
+          width: attachment.width ?? null,
+          height: attachment.height ?? null,
+        })),
+      )
+      .select('id, file_name, mime_type, size_bytes, width, height');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Delete stored files, e.g. when their message could not be saved
+   */
+  async removeFiles(uploaded: UploadedAttachment[]): Promise<void> {
+    if (uploaded.length === 0) return;
+
+    const { error } = await this.supabase.storage
+      .from(CHAT_ATTACHMENTS_BUCKET)
+      .remove(uploaded.map((a) => a.storagePath));
+
+    if (error) {
+      this.logger.error('Error removing chat attachments:', error);
+    }
+  }
+
+  /**
+   * Short-lived URL for an attachment of a message in a match
+   * Documents are served as downloads under their original name.
+   */
+  async createSignedUrl(
+    matchId: string,
+    messageId: string,
+    attachmentId: string,
+  ): Promise<{ url: string; expiresAt: string }> {
+    const { data: attachment, error } = await this.supabase
+      .from('match_message_attachments')
+      .select(
+        'storage_path, file_name, mime_type, match_messages!inner(match_id)',
+      )
+      .eq('id', attachmentId)
+      .eq('message_id', messageId)
+      .eq('match_messages.match_id', matchId)
+      // Files of deleted or hidden messages are no longer shared
+      .is('match_messages.deleted_at', null)
+      .is('match_messages.hidden_at', null)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!attachment) {
+      throw new NotFoundException('Attachment not found');
+    }
+
+    const isImage = attachment.mime_type.startsWith('image/');
+    const { data, error: signError } = await this.supabase.storage
+      .from(CHAT_ATTACHMENTS_BUCKET)
+      .createSignedUrl(
+        attachment.storage_path,
+        SIGNED_URL_TTL_SECONDS,
+        isImage ? undefined : { download: attachment.file_name },
+      );
+
+    if (signError || !data) {
+      throw new Error(signError?.message || 'Failed to sign attachment URL');
+    }
+
+    return {
+      url: data.signedUrl,
+      expiresAt: new Date(
+        Date.now() + SIGNED_URL_TTL_SECONDS * 1000,
+      ).toISOString(),
+    };
+  }
+
+  private async prepare(
+    matchId: string,
+    file: AttachmentUpload,
+  ): Promise<UploadedAttachment & { buffer: Buffer }> {
+    const input = Buffer.from(file.base64Data, 'base64');
+    if (input.length === 0) {
+      throw new BadRequestException(`${file.fileName} is empty`);
+    }
+    if (input.length > MAX_ATTACHMENT_BYTES) {
+      throw new BadRequestException(
+        `${file.fileName} exceeds the ${toMegabytes(MAX_ATTACHMENT_BYTES)}MB limit`,
+      );
+    }
+
+    const id = randomUUID();
+
+    if (IMAGE_MIME_TYPES.includes(file.mimeType)) {
+      const image = await compressToJpeg(input, {
+        size: CHAT_IMAGE_SIZE,
+        quality: CHAT_IMAGE_QUALITY,
+        fit: 'inside',
+      }).catch(() => {
+        throw new BadRequestException(`${file.fileName} is not a valid image`);
+      });
+
+      return {
+        id,
+        storagePath: `${matchId}/${id}.jpg`,
+        fileName: withExtension(file.fileName, 'jpg'),
+        mimeType: 'image/jpeg',
+        sizeBytes: image.buffer.length,
+        width: image.width,
+        height: image.height,
+        buffer: image.buffer,
+      };
+    }
+
+    const documentType = DOCUMENT_TYPES[file.mimeType];
+    if (
+      !documentType ||
+      !input
+        .subarray(0, documentType.signature.length)
+        .equals(documentType.signature)
+    ) {
+      throw new BadRequestException(
+        `${file.fileName} is not a supported file type`,
+      );
+    }
+
+    return {
+      id,
+      storagePath: `${matchId}/${id}.${documentType.extension}`,
+      fileName: withExtension(file.fileName, documentType.extension),
+      mimeType: file.mimeType,
+      sizeBytes: input.length,
+      buffer: input,
+    };
+  }
+}
+
+/**
+ * Strip any path from a client-supplied file name and make its extension
+ * match the stored file
+ */
+function withExtension(fileName: string, extension: string): string {
+  const baseName = [...(fileName.split(/[\\/]/).pop() || '')]
+    // Control characters and quotes would break the download header
+    .filter((char) => char.charCodeAt(0) >= 0x20 && char !== '"')
+    .join('')
+    .replace(/\.[^.]*$/, '')
+    .trim();
+
+  return `${(baseName || 'attachment').slice(0, 200)}.${extension}`;
+}
+
+function toMegabytes(bytes: number): number {
+  return bytes / 1024 / 1024;
+}
@@ -0,0 +1,90 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ResolveReportDto } from './dto/chat.dto';
+
+export interface ResolvedReport {
+  reportId: string;
+  messageId: string;
+  matchId: string;
+  senderId: string;
+  action: ResolveReportDto['action'];
+}
+
+/**
+ * Admin queue of reported chat messages (`message_reports`)
+ * Resolving a report settles every open report on the same message and
+ * is recorded in `audit_logs`.
+ */
+@Injectable()
+export class ChatModerationService {
+  constructor(@Inject('SUPABASE_CLIENT') private supabase: SupabaseClient) {}
+
+  /**
+   * Reports with the reported message and its sender, oldest first
+   */
+  async listReports(status = 'open', limit = 50, offset = 0) {
+    const { data, error, count } = await this.supabase
+      .from('message_reports')
+      .select(
+        `
+        id, reason, details, status, action, created_at, resolved_at, resolution_note,
+        reporter:users!message_reports_reporter_id_fkey(id, first_name, last_name),
+        message:match_messages(
+          id, match_id, message_text, created_at, edited_at, deleted_at, hidden_at,
+          sender:users(id, first_name, last_name, email, is_active),
+          attachments:match_message_attachments(id, file_name, mime_type)
+        )
+      `,
+        { count: 'exact' },
+      )
+      .eq('status', status)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return { data: data || [], count: count || 0 };
+  }
+
+  /**
+   * Act on a report: hide the message, hide it and suspend the sender
+   * (`users.is_active`), or dismiss it
+   * All of it is one transaction (resolve_message_report), so only one of
+   * two admins resolving at the same time acts.
+   */
+  async resolveReport(
+    reportId: string,
+    adminId: string,
+    resolveDto: ResolveReportDto,
+  ): Promise<ResolvedReport> {
+    const { action, note } = resolveDto;
+    const { data, error } = await this.supabase.rpc('resolve_message_report', {
+      p_report_id: reportId,
+      p_admin_id: adminId,
+      p_action: action,
+      p_note: note || null,
+    });
+
+    if (error) {
+      if (error.code === 'P0002') throw new NotFoundException(error.message);
+      // Raised when another admin resolved it first
+      if (error.code === 'P0001') throw new ConflictException(error.message);
+      throw new Error(error.message);
+    }
+
+    return {
+      reportId: data.report_id,
+      messageId: data.message_id,
+      matchId: data.match_id,
+      senderId: data.sender_id,
+      action: data.action,
+    };
+  }
+}
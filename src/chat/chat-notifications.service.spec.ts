@@ -0,0 +1,187 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ChatNotificationsService } from './chat-notifications.service';
+import { ChatPresenceService } from './chat-presence.service';
+import {
+  NotificationsService,
+  type CreateNotificationDto,
+} from '../common/services/notifications.service';
+
+describe('ChatNotificationsService', () => {
+  let digests: any[];
+  let unread: Record<string, number>;
+  let present: Set<string>;
+  let created: CreateNotificationDto[];
+  let requeued: any[];
+  let failingUserIds: Set<string>;
+  let createFails: boolean;
+  let service: ChatNotificationsService;
+
+  beforeEach(() => {
+    digests = [];
+    unread = {};
+    present = new Set();
+    created = [];
+    requeued = [];
+    failingUserIds = new Set();
+    createFails = false;
+
+    const supabase = {
+      rpc: (name: string, params: any) => {
+        if (name === 'take_due_message_digests') {
+          return Promise.resolve({ data: digests, error: null });
+        }
+        if (name === 'requeue_message_digests') {
+          requeued.push(...params.p_digests);
+          return Promise.resolve({ data: null, error: null });
+        }
+        if (failingUserIds.has(params.p_user_id)) {
+          return Promise.resolve({ data: null, error: { message: 'timeout' } });
+        }
+        const count = unread[params.p_user_id] || 0;
+        return Promise.resolve({
+          data: count
+            ? [{ match_id: params.p_match_ids[0], unread_count: count }]
+            : [],
+          error: null,
+        });
+      },
+      from: () => ({
+        select: () => ({
+          in: () =>
+            Promise.resolve({
+              data: [
+                { id: 'sender-1', first_name: 'Nimal', last_name: 'Perera' },
+                { id: 'sender-2', first_name: 'Kumari', last_name: 'Silva' },
+              ],
+              error: null,
+            }),
+        }),
+      }),
+    };
+    const chatPresenceService = {
+      getPresentUserIds: () => Promise.resolve(present),
+    } as unknown as ChatPresenceService;
+    const notificationsService = {
+      createBulkNotifications: (notifications: CreateNotificationDto[]) => {
+        if (createFails) return Promise.reject(new Error('insert failed'));
+        created.push(...notifications);
+        return Promise.resolve([]);
+      },
+    } as unknown as NotificationsService;
+
+    service = new ChatNotificationsService(
+      supabase as unknown as SupabaseClient,
+      chatPresenceService,
+      notificationsService,
+    );
+  });
+
+  it('sends one notification per digest naming every sender', async () => {
+    digests = [
+      {
+        user_id: 'user-1',
+        match_id: 'match-1',
+        message_count: 3,
+        sender_ids: ['sender-1', 'sender-2'],
+        attempts: 0,
+      },
+    ];
+    unread = { 'user-1': 5 };
+
+    await expect(service.sendDueDigests()).resolves.toBe(1);
+    expect(created).toEqual([
+      expect.objectContaining({
+        userId: 'user-1',
+        type: 'message_received',
+        relatedEntityId: 'match-1',
+        body: 'You have 3 new messages from Nimal Perera, Kumari Silva.',
+        data: { senderName: 'Nimal Perera, Kumari Silva', messageCount: 3 },
+      }),
+    ]);
+  });
+
+  it('counts only messages still unread', async () => {
+    digests = [
+      {
+        user_id: 'user-1',
+        match_id: 'match-1',
+        message_count: 4,
+        sender_ids: ['sender-1'],
+        attempts: 0,
+      },
+    ];
+    unread = { 'user-1': 1 };
+
+    await service.sendDueDigests();
+    expect(created[0].body).toBe('You have 1 new message from Nimal Perera.');
+  });
+
+  it('skips users who read the chat or have it open', async () => {
+    digests = [
+      {
+        user_id: 'user-1',
+        match_id: 'match-1',
+        message_count: 2,
+        sender_ids: ['sender-1'],
+        attempts: 0,
+      },
+    ];
+
+    await expect(service.sendDueDigests()).resolves.toBe(0);
+
+    unread = { 'user-1': 2 };
+    present.add('user-1');
+    await expect(service.sendDueDigests()).resolves.toBe(0);
+    expect(created).toEqual([]);
+  });
+
+  it('puts back a digest that fails without holding up the others', async () => {
+    digests = [
+      {
+        user_id: 'user-1',
+        match_id: 'match-1',
+        message_count: 1,
+        sender_ids: ['sender-1'],
+        attempts: 0,
+      },
+      {
+        user_id: 'user-2',
+        match_id: 'match-1',
+        message_count: 1,
+        sender_ids: ['sender-1'],
+        attempts: 0,
+      },
+    ];
+    unread = { 'user-1': 1, 'user-2': 1 };
+    failingUserIds.add('user-1');
+
+    await expect(service.sendDueDigests()).resolves.toBe(1);
+    expect(created).toEqual([expect.objectContaining({ userId: 'user-2' })]);
+    expect(requeued).toEqual([digests[0]]);
+  });
+
+  it('puts back every digest when the notifications cannot be created', async () => {
+    digests = [
+      {
+        user_id: 'user-1',
+        match_id: 'match-1',
+        message_count: 1,
+        sender_ids: ['sender-1'],
+        attempts: 0,
+      },
+      {
+        user_id: 'user-2',
+        match_id: 'match-1',
+        message_count: 1,
+        sender_ids: ['sender-1'],
+        attempts: 4,
+      },
+    ];
+    unread = { 'user-1': 1, 'user-2': 1 };
+    createFails = true;
+
+    await expect(service.sendDueDigests()).resolves.toBe(0);
+    // user-2's digest has failed too often and is dropped
+    expect(requeued).toEqual([digests[0]]);
+  });
+});
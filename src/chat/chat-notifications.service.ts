@@ -0,0 +1,226 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ChatPresenceService } from './chat-presence.service';
+import type { ChatMessage } from './chat.service';
+import {
+  NotificationsService,
+  type CreateNotificationDto,
+} from '../common/services/notifications.service';
+
+// Messages arriving this soon after the first unnotified one share its
+// notification
+export const MESSAGE_DIGEST_WINDOW_SECONDS = 2 * 60;
+
+const DIGEST_BATCH_SIZE = 200;
+
+// Digests that could not be sent are retried this long after, and dropped
+// once they have failed this often
+const DIGEST_RETRY_DELAY_SECONDS = 60;
+const MAX_DIGEST_ATTEMPTS = 5;
+
+interface MessageDigest {
+  user_id: string;
+  match_id: string;
+  message_count: number;
+  sender_ids: string[];
+  attempts: number;
+}
+
+/**
+ * `message_received` notifications for match chats
+ * New messages are collected per recipient and match
+ * (`message_notification_digests`) and sent as one notification when the
+ * window closes. Recipients with the chat open, or who have read the
+ * messages by then, are not notified; delivery checks each user's
+ * notification preferences as for any other type. Digests that fail to
+ * send are put back and retried.
+ */
+@Injectable()
+export class ChatNotificationsService {
+  private readonly logger = new Logger(ChatNotificationsService.name);
+
+  constructor(
+    @Inject('SUPABASE_CLIENT') private supabase: SupabaseClient,
+    private chatPresenceService: ChatPresenceService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Add a new message to the digests of recipients without the chat open
+   */
+  async queueMessage(message: ChatMessage): Promise<void> {
+    try {
+      const { data, error } = await this.supabase
+        .from('transfer_match_participants')
+        .select('user_id')
+        .eq('match_id', message.match_id)
+        .neq('user_id', message.sender_id);
+
+      if (error) throw new Error(error.message);
+
+      const present = await this.chatPresenceService.getPresentUserIds(
+        message.match_id,
+      );
+      const recipientIds = (data || [])
+        .map((p) => p.user_id)
+        .filter((userId) => !present.has(userId));
+      if (recipientIds.length === 0) return;
+
+      const { error: queueError } = await this.supabase.rpc(
+        'queue_message_digests',
+        {
+          p_match_id: message.match_id,
+          p_sender_id: message.sender_id,
+          p_user_ids: recipientIds,
+          p_window_seconds: MESSAGE_DIGEST_WINDOW_SECONDS,
+        },
+      );
+
+      if (queueError) throw new Error(queueError.message);
+    } catch (error) {
+      this.logger.error('Error queueing message notifications:', error);
+      // Don't throw - the message itself was sent
+    }
+  }
+
+  /**
+   * Send the digests whose window has closed, returns how many were sent
+   */
+  async sendDueDigests(): Promise<number> {
+    const { data, error } = await this.supabase.rpc(
+      'take_due_message_digests',
+      { p_limit: DIGEST_BATCH_SIZE },
+    );
+
+    if (error) throw new Error(error.message);
+
+    const digests = (data || []) as MessageDigest[];
+    if (digests.length === 0) return 0;
+
+    // The digests are already taken, so any that aren't sent must be put back
+    let senderNames: Map<string, string>;
+    try {
+      senderNames = await this.getSenderNames(digests);
+    } catch (error) {
+      await this.requeue(digests);
+      throw error;
+    }
+
+    const failed: MessageDigest[] = [];
+    const sending: MessageDigest[] = [];
+    const notifications: CreateNotificationDto[] = [];
+    for (const digest of digests) {
+      let messageCount: number;
+      try {
+        messageCount = await this.getUnnotifiedCount(digest);
+      } catch (error) {
+        this.logger.error(
+          `Error preparing message notification for user ${digest.user_id} in match ${digest.match_id}:`,
+          error,
+        );
+        failed.push(digest);
+        continue;
+      }
+      if (messageCount === 0) continue;
+
+      const senderName = digest.sender_ids
+        .map((id) => senderNames.get(id))
+        .filter(Boolean)
+        .join(', ');
+      sending.push(digest);
+      notifications.push({
+        userId: digest.user_id,
+        type: 'message_received',
+        title: 'New Messages',
+        body: `You have ${messageCount} new ${messageCount === 1 ? 'message' : 'messages'} from ${senderName}.`,
+        relatedEntityType: 'match',
+        relatedEntityId: digest.match_id,
+        data: { senderName, messageCount },
+      });
+    }
+
+    let sent = 0;
+    if (notifications.length > 0) {
+      try {
+        await this.notificationsService.createBulkNotifications(notifications);
+        sent = notifications.length;
+      } catch (error) {
+        this.logger.error('Error creating message notifications:', error);
+        failed.push(...sending);
+      }
+    }
+
+    await this.requeue(failed);
+    return sent;
+  }
+
+  /**
+   * Put digests that could not be sent back for a later pass, dropping
+   * those that have failed too often
+   */
+  private async requeue(digests: MessageDigest[]): Promise<void> {
+    const retries = digests.filter((digest) => {
+      if (digest.attempts + 1 < MAX_DIGEST_ATTEMPTS) return true;
+      this.logger.warn(
+        `Dropping message notification for user ${digest.user_id} in match ${digest.match_id} after ${MAX_DIGEST_ATTEMPTS} failed attempts`,
+      );
+      return false;
+    });
+    if (retries.length === 0) return;
+
+    const { error } = await this.supabase.rpc('requeue_message_digests', {
+      p_digests: retries,
+      p_retry_seconds: DIGEST_RETRY_DELAY_SECONDS,
+    });
+
+    if (error) {
+      this.logger.error(
+        `Error requeueing ${retries.length} message notifications:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Messages in a digest still worth notifying: none once the user has
+   * opened the chat, otherwise at most their unread count
+   */
+  private async getUnnotifiedCount(digest: MessageDigest): Promise<number> {
+    const present = await this.chatPresenceService.getPresentUserIds(
+      digest.match_id,
+    );
+    if (present.has(digest.user_id)) return 0;
+
+    const { data, error } = await this.supabase.rpc('count_unread_messages', {
+      p_user_id: digest.user_id,
+      p_match_ids: [digest.match_id],
+    });
+
+    if (error) throw new Error(error.message);
+
+    const unread = Number(
+      (data as { unread_count: number }[] | null)?.[0]?.unread_count || 0,
+    );
+    return Math.min(digest.message_count, unread);
+  }
+
+  private async getSenderNames(
+    digests: MessageDigest[],
+  ): Promise<Map<string, string>> {
+    const senderIds = [...new Set(digests.flatMap((d) => d.sender_ids))];
+
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('id, first_name, last_name')
+      .in('id', senderIds);
+
+    if (error) throw new Error(error.message);
+
+    return new Map(
+      (data || []).map((user) => [
+        user.id,
+        `${user.first_name} ${user.last_name}`,
+      ]),
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import type { Namespace } from 'socket.io';
+import type { JwtPayload } from '../common/decorators/user.decorator';
+
+export function matchRoom(matchId: string): string {
+  return `match:${matchId}`;
+}
+
+/**
+ * Who has a match chat open right now, i.e. is connected to the chat
+ * gateway and has joined the match's room
+ * Only sockets on this instance are seen unless the gateway runs with a
+ * shared socket.io adapter (e.g. Redis). Without one, a user with the chat
+ * open on another instance counts as away and is still notified.
+ */
+@Injectable()
+export class ChatPresenceService {
+  private server?: Namespace;
+
+  /**
+   * Called by ChatGateway once its namespace is ready
+   */
+  attach(server: Namespace): void {
+    this.server = server;
+  }
+
+  async getPresentUserIds(matchId: string): Promise<Set<string>> {
+    if (!this.server) return new Set();
+
+    const sockets = await this.server.in(matchRoom(matchId)).fetchSockets();
+    return new Set(
+      sockets.map((socket) => (socket.data.user as JwtPayload).userId),
+    );
+  }
+}
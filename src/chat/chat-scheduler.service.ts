@@ -0,0 +1,29 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ChatNotificationsService } from './chat-notifications.service';
+
+@Injectable()
+export class ChatSchedulerService {
+  private readonly logger = new Logger(ChatSchedulerService.name);
+
+  constructor(private chatNotificationsService: ChatNotificationsService) {}
+
+  /**
+   * Send new-message digests whose window has closed every minute
+   */
+  @Cron(CronExpression.EVERY_MINUTE, {
+    name: 'message-digests',
+    timeZone: 'Asia/Colombo',
+  })
+  async sendMessageDigests() {
+    try {
+      const sent = await this.chatNotificationsService.sendDueDigests();
+
+      if (sent > 0) {
+        this.logger.log(`Sent ${sent} new message notifications`);
+      }
+    } catch (error) {
+      this.logger.error('Error sending message notifications:', error);
+    }
+  }
+}
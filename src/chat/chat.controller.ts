@@ -3,14 +3,25 @@ import {
   Get,
   Post,
   Patch,
+  Delete,
   Param,
   Body,
   Query,
   UseGuards,
 } from '@nestjs/common';
 import { ChatService } from './chat.service';
-import { SendMessageDto } from './dto/chat.dto';
+import { ChatGateway } from './chat.gateway';
+import {
+  SendMessageDto,
+  EditMessageDto,
+  ReportMessageDto,
+  ResolveReportDto,
+  MessageHistoryQueryDto,
+  MessageSyncQueryDto,
+} from './dto/chat.dto';
+import { ChatModerationService } from './chat-moderation.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../common/guards/admin.guard';
 import { CurrentUser } from '../common/decorators/user.decorator';
 
 interface JwtPayload {
@@ -21,29 +32,41 @@ interface JwtPayload {
 @Controller('api/matches/:matchId/messages')
 @UseGuards(JwtAuthGuard)
 export class ChatController {
-  constructor(private chatService: ChatService) {}
+  constructor(
+    private chatService: ChatService,
+    private chatGateway: ChatGateway,
+  ) {}
 
   /**
-   * Get messages for a match (paginated)
-   * GET /api/matches/:matchId/messages?limit=50&offset=0
+   * Get messages for a match, newest first (cursor paginated)
+   * GET /api/matches/:matchId/messages?limit=50&before=<messageId or timestamp>
+   * GET /api/matches/:matchId/messages?limit=50&after=<messageId or timestamp>
    */
   @Get()
   async getMessages(
     @Param('matchId') matchId: string,
-    @Query('limit') limit: string,
-    @Query('offset') offset: string,
+    @Query() query: MessageHistoryQueryDto,
     @CurrentUser() user: JwtPayload,
   ) {
-    return this.chatService.getMessages(
-      matchId,
-      user.userId,
-      parseInt(limit) || 50,
-      parseInt(offset) || 0,
-    );
+    return this.chatService.getMessages(matchId, user.userId, query);
+  }
+
+  /**
+   * New, edited and deleted messages since the last sync, for offline caches
+   * GET /api/matches/:matchId/messages/sync?since=<syncToken>&limit=200
+   */
+  @Get('sync')
+  async syncMessages(
+    @Param('matchId') matchId: string,
+    @Query() query: MessageSyncQueryDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.chatService.syncMessages(matchId, user.userId, query);
   }
 
   /**
-   * Send a message in a match chat
+   * Send a message in a match chat, optionally with up to 3 attachments
+   * (base64, images or PDF/Word documents, 5MB each)
    * POST /api/matches/:matchId/messages
    */
   @Post()
@@ -52,7 +75,33 @@ export class ChatController {
     @Body() body: SendMessageDto,
     @CurrentUser() user: JwtPayload,
   ) {
-    return this.chatService.sendMessage(matchId, user.userId, body.message);
+    const message = await this.chatService.sendMessage(
+      matchId,
+      user.userId,
+      body.message,
+      body.attachments,
+    );
+    this.chatGateway.broadcastMessage(message);
+    return message;
+  }
+
+  /**
+   * Get a short-lived URL to view or download an attachment
+   * GET /api/matches/:matchId/messages/:messageId/attachments/:attachmentId/url
+   */
+  @Get(':messageId/attachments/:attachmentId/url')
+  async getAttachmentUrl(
+    @Param('matchId') matchId: string,
+    @Param('messageId') messageId: string,
+    @Param('attachmentId') attachmentId: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.chatService.getAttachmentUrl(
+      matchId,
+      messageId,
+      attachmentId,
+      user.userId,
+    );
   }
 
   /**
@@ -65,7 +114,12 @@ export class ChatController {
     @Param('messageId') messageId: string,
     @CurrentUser() user: JwtPayload,
   ) {
-    await this.chatService.markAsRead(matchId, messageId, user.userId);
+    const messageIds = await this.chatService.markAsRead(
+      matchId,
+      messageId,
+      user.userId,
+    );
+    this.chatGateway.broadcastRead(matchId, user.userId, messageIds);
     return { success: true };
   }
 
@@ -78,7 +132,11 @@ export class ChatController {
     @Param('matchId') matchId: string,
     @CurrentUser() user: JwtPayload,
   ) {
-    await this.chatService.markAllAsRead(matchId, user.userId);
+    const messageIds = await this.chatService.markAllAsRead(
+      matchId,
+      user.userId,
+    );
+    this.chatGateway.broadcastRead(matchId, user.userId, messageIds);
     return { success: true };
   }
 
@@ -94,6 +152,60 @@ export class ChatController {
     const count = await this.chatService.getUnreadCount(matchId, user.userId);
     return { count };
   }
+
+  /**
+   * Report a message for abuse
+   * POST /api/matches/:matchId/messages/:messageId/report
+   */
+  @Post(':messageId/report')
+  async reportMessage(
+    @Param('matchId') matchId: string,
+    @Param('messageId') messageId: string,
+    @Body() body: ReportMessageDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    await this.chatService.reportMessage(matchId, messageId, user.userId, body);
+    return { message: 'Message reported. Our team will review it.' };
+  }
+
+  // Declared after the static routes above so ':messageId' doesn't
+  // capture 'read-all' or 'unread-count'
+
+  /**
+   * Edit your own message (within 15 minutes of sending)
+   * PATCH /api/matches/:matchId/messages/:messageId
+   */
+  @Patch(':messageId')
+  async editMessage(
+    @Param('matchId') matchId: string,
+    @Param('messageId') messageId: string,
+    @Body() body: EditMessageDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    const message = await this.chatService.editMessage(
+      matchId,
+      messageId,
+      user.userId,
+      body.message,
+    );
+    this.chatGateway.broadcastUpdated(message);
+    return message;
+  }
+
+  /**
+   * Delete your own message (within 15 minutes of sending)
+   * DELETE /api/matches/:matchId/messages/:messageId
+   */
+  @Delete(':messageId')
+  async deleteMessage(
+    @Param('matchId') matchId: string,
+    @Param('messageId') messageId: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    await this.chatService.deleteMessage(matchId, messageId, user.userId);
+    this.chatGateway.broadcastDeleted(matchId, messageId);
+    return { message: 'Message deleted successfully' };
+  }
 }
 
 /**
@@ -114,3 +226,56 @@ export class ChatGlobalController {
     return { count };
   }
 }
+
+/**
+ * Admin moderation queue for reported messages
+ */
+@Controller('api/chat/reports')
+@UseGuards(JwtAuthGuard, AdminGuard)
+export class ChatModerationController {
+  constructor(
+    private chatModerationService: ChatModerationService,
+    private chatGateway: ChatGateway,
+  ) {}
+
+  /**
+   * List reports, oldest first
+   * GET /api/chat/reports?status=open&limit=50&offset=0
+   */
+  @Get()
+  async listReports(
+    @Query('status') status: string,
+    @Query('limit') limit: string,
+    @Query('offset') offset: string,
+  ) {
+    return this.chatModerationService.listReports(
+      status || 'open',
+      parseInt(limit) || 50,
+      parseInt(offset) || 0,
+    );
+  }
+
+  /**
+   * Hide the message, suspend its sender, or dismiss the report
+   * POST /api/chat/reports/:reportId/resolve
+   */
+  @Post(':reportId/resolve')
+  async resolveReport(
+    @Param('reportId') reportId: string,
+    @Body() body: ResolveReportDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    const resolved = await this.chatModerationService.resolveReport(
+      reportId,
+      user.userId,
+      body,
+    );
+    if (resolved.action !== 'dismiss') {
+      this.chatGateway.broadcastDeleted(resolved.matchId, resolved.messageId);
+    }
+    if (resolved.action === 'suspend') {
+      this.chatGateway.disconnectUser(resolved.senderId);
+    }
+    return resolved;
+  }
+}
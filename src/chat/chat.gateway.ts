@@ -0,0 +1,226 @@
+import { Logger, UseFilters, UsePipes, ValidationPipe } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  OnGatewayInit,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+  WsException,
+} from '@nestjs/websockets';
+import type { Namespace, Socket } from 'socket.io';
+import { ChatService, type ChatMessage } from './chat.service';
+import {
+  MatchRoomDto,
+  SocketReadMessagesDto,
+  SocketSendMessageDto,
+  TypingDto,
+} from './dto/chat.dto';
+import { WsHttpExceptionFilter } from './ws-exception.filter';
+import { ChatPresenceService, matchRoom } from './chat-presence.service';
+import { AuthService } from '../auth/auth.service';
+import type { JwtPayload } from '../common/decorators/user.decorator';
+
+// Every socket of a user, so they can all be dropped at once
+function userRoom(userId: string): string {
+  return `user:${userId}`;
+}
+
+/**
+ * Real-time chat for accepted matches (socket.io namespace `/chat`)
+ *
+ * Clients connect with the same JWT as the REST API, either as
+ * `auth: { token }` or an `Authorization: Bearer` header, then join the
+ * rooms of the matches they have open.
+ *
+ * Client → server: `match:join`, `match:leave`, `message:send`,
+ * `message:read`, `typing`
+ * Server → client: `message:new`, `message:updated`, `message:deleted`,
+ * `message:read`, `typing`, and `exception` when a request fails
+ */
+@WebSocketGateway({ namespace: 'chat' })
+@UseFilters(new WsHttpExceptionFilter())
+@UsePipes(new ValidationPipe({ whitelist: true, transform: true }))
+export class ChatGateway implements OnGatewayInit, OnGatewayConnection {
+  private readonly logger = new Logger(ChatGateway.name);
+
+  @WebSocketServer()
+  private server: Namespace;
+
+  constructor(
+    private chatService: ChatService,
+    private jwtService: JwtService,
+    private chatPresenceService: ChatPresenceService,
+    private authService: AuthService,
+  ) {}
+
+  afterInit(server: Namespace) {
+    this.chatPresenceService.attach(server);
+
+    // Reject the handshake itself so no event is handled unauthenticated
+    server.use((client, next) => {
+      this.authenticate(client)
+        .then((user) => {
+          client.data.user = user;
+          next();
+        })
+        .catch((error: Error) => {
+          this.logger.debug(`Rejected chat connection: ${error.message}`);
+          next(new Error('Unauthorized'));
+        });
+    });
+  }
+
+  async handleConnection(client: Socket) {
+    await client.join(userRoom(this.getUser(client).userId));
+  }
+
+  /**
+   * Start receiving a match's messages, read receipts and typing indicators
+   * New messages are not notified while the user has the match joined.
+   */
+  @SubscribeMessage('match:join')
+  async joinMatch(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: MatchRoomDto,
+  ) {
+    const hasAccess = await this.chatService.verifyMatchAccess(
+      body.matchId,
+      this.getUser(client).userId,
+    );
+    if (!hasAccess) {
+      throw new WsException(
+        'You do not have access to this chat. The match must be accepted.',
+      );
+    }
+
+    await client.join(matchRoom(body.matchId));
+    return { matchId: body.matchId };
+  }
+
+  @SubscribeMessage('match:leave')
+  async leaveMatch(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: MatchRoomDto,
+  ) {
+    await client.leave(matchRoom(body.matchId));
+    return { matchId: body.matchId };
+  }
+
+  @SubscribeMessage('message:send')
+  async sendMessage(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: SocketSendMessageDto,
+  ) {
+    const message = await this.chatService.sendMessage(
+      body.matchId,
+      this.getUser(client).userId,
+      body.message,
+    );
+    this.broadcastMessage(message);
+    return message;
+  }
+
+  @SubscribeMessage('message:read')
+  async readMessages(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: SocketReadMessagesDto,
+  ) {
+    const { userId } = this.getUser(client);
+    const messageIds = body.messageId
+      ? await this.chatService.markAsRead(body.matchId, body.messageId, userId)
+      : await this.chatService.markAllAsRead(body.matchId, userId);
+    this.broadcastRead(body.matchId, userId, messageIds);
+    return { success: true };
+  }
+
+  @SubscribeMessage('typing')
+  typing(@ConnectedSocket() client: Socket, @MessageBody() body: TypingDto) {
+    const room = matchRoom(body.matchId);
+    if (!client.rooms.has(room)) {
+      throw new WsException('Join the match before typing in it');
+    }
+
+    client.to(room).emit('typing', {
+      matchId: body.matchId,
+      userId: this.getUser(client).userId,
+      isTyping: body.isTyping,
+    });
+  }
+
+  /**
+   * Push a new message to everyone with the match open
+   */
+  broadcastMessage(message: ChatMessage): void {
+    this.server
+      .to(matchRoom(message.match_id))
+      .emit('message:new', this.chatService.presentMessage(message));
+  }
+
+  /**
+   * Push an edited message to everyone with the match open
+   */
+  broadcastUpdated(message: ChatMessage): void {
+    this.server
+      .to(matchRoom(message.match_id))
+      .emit('message:updated', this.chatService.presentMessage(message));
+  }
+
+  /**
+   * Tell the match a message was deleted by its sender or hidden by a
+   * moderator
+   */
+  broadcastDeleted(matchId: string, messageId: string): void {
+    this.server
+      .to(matchRoom(matchId))
+      .emit('message:deleted', { matchId, messageId });
+  }
+
+  /**
+   * Tell the match which messages a participant has just read, so senders
+   * can update their "seen by" lists
+   */
+  broadcastRead(matchId: string, readerId: string, messageIds: string[]): void {
+    if (messageIds.length === 0) return;
+
+    this.server.to(matchRoom(matchId)).emit('message:read', {
+      matchId,
+      readerId,
+      messageIds,
+      readAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Drop every chat connection of a user, e.g. when they are suspended
+   */
+  disconnectUser(userId: string): void {
+    this.server.in(userRoom(userId)).disconnectSockets(true);
+  }
+
+  private async authenticate(client: Socket): Promise<JwtPayload> {
+    const header = client.handshake.headers.authorization;
+    const token =
+      (client.handshake.auth?.token as string | undefined) ||
+      (header?.startsWith('Bearer ') ? header.slice(7) : undefined);
+    if (!token) throw new Error('Missing token');
+
+    // Same checks as JwtStrategy
+    const payload = await this.jwtService.verifyAsync<{
+      sub?: string;
+      email?: string;
+    }>(token);
+    if (!payload.sub || !payload.email) throw new Error('Invalid token');
+    if (await this.authService.isSuspended(payload.sub)) {
+      throw new Error('Account suspended');
+    }
+
+    return { userId: payload.sub, email: payload.email };
+  }
+
+  private getUser(client: Socket): JwtPayload {
+    return client.data.user as JwtPayload;
+  }
+}
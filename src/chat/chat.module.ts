@@ -1,12 +1,44 @@
 import { Module } from '@nestjs/common';
-import { ChatController, ChatGlobalController } from './chat.controller';
+import { JwtModule } from '@nestjs/jwt';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import {
+  ChatController,
+  ChatGlobalController,
+  ChatModerationController,
+} from './chat.controller';
 import { ChatService } from './chat.service';
+import { ChatGateway } from './chat.gateway';
+import { ChatAttachmentsService } from './chat-attachments.service';
+import { ChatModerationService } from './chat-moderation.service';
+import { ChatNotificationsService } from './chat-notifications.service';
+import { ChatPresenceService } from './chat-presence.service';
+import { ChatSchedulerService } from './chat-scheduler.service';
 import { SupabaseModule } from '../supabase/supabase.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
-  imports: [SupabaseModule],
-  controllers: [ChatController, ChatGlobalController],
-  providers: [ChatService],
+  imports: [
+    SupabaseModule,
+    AuthModule,
+    // Verifies the tokens AuthModule issues when sockets connect
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        secret: configService.get('JWT_SECRET'),
+      }),
+      inject: [ConfigService],
+    }),
+  ],
+  controllers: [ChatController, ChatGlobalController, ChatModerationController],
+  providers: [
+    ChatService,
+    ChatAttachmentsService,
+    ChatModerationService,
+    ChatNotificationsService,
+    ChatPresenceService,
+    ChatSchedulerService,
+    ChatGateway,
+  ],
   exports: [ChatService],
 })
 export class ChatModule {}
@@ -1,5 +1,29 @@
-import { Injectable, Inject, ForbiddenException } from '@nestjs/common';
+import {
+  Injectable,
+  Inject,
+  ForbiddenException,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  ChatAttachmentsService,
+  type AttachmentUpload,
+  type MessageAttachment,
+} from './chat-attachments.service';
+import { ChatNotificationsService } from './chat-notifications.service';
+import {
+  ReportMessageDto,
+  MessageHistoryQueryDto,
+  MessageSyncQueryDto,
+} from './dto/chat.dto';
+import {
+  decodeSyncToken,
+  encodeSyncToken,
+  TIMESTAMP_PATTERN,
+  UUID_PATTERN,
+} from './sync-token';
 
 export interface ChatMessage {
   id: string;
@@ -9,29 +33,76 @@ export interface ChatMessage {
   is_read: boolean;
   created_at: string;
   updated_at?: string;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  hidden_at?: string | null;
   sender?: {
     id: string;
     first_name?: string;
     last_name?: string;
-    profile_image_url?: string;
+    profile_image_url?: string | null;
     profile_visible?: boolean;
   };
+  attachments?: MessageAttachment[];
+  // Recipients who have read the message
+  seen_by?: { user_id: string; read_at: string }[];
 }
 
+export interface MessageSyncResult {
+  // New and edited messages, in the order they changed
+  messages: ChatMessage[];
+  // Messages deleted by their sender or hidden by a moderator
+  deletedIds: string[];
+  // Pass as `since` next time; null until the chat has any messages
+  syncToken: string | null;
+  // More changes are waiting; sync again straight away
+  hasMore: boolean;
+}
+
+const MESSAGE_SELECT = `
+  *,
+  sender:users(id, first_name, last_name, profile_image_url, profile_visible),
+  attachments:match_message_attachments(id, file_name, mime_type, size_bytes, width, height),
+  seen_by:match_message_reads(user_id, read_at)
+`;
+
+// Chat stays readable after a match completes or is dissolved, but new
+// messages are only possible while the transfer is still going ahead
+const READABLE_MATCH_STATUSES = ['accepted', 'completed', 'dissolved'];
+const WRITABLE_MATCH_STATUSES = ['accepted', 'completed'];
+
+// How long after sending a message its sender can still edit or delete it
+const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+// Sync only returns changes at least this old, so one stamped just before a
+// client synced but committed after is not skipped
+const SYNC_SETTLE_SECONDS = 10;
+
 @Injectable()
 export class ChatService {
-  constructor(@Inject('SUPABASE_CLIENT') private supabase: SupabaseClient) {}
+  constructor(
+    @Inject('SUPABASE_CLIENT') private supabase: SupabaseClient,
+    private chatAttachmentsService: ChatAttachmentsService,
+    private chatNotificationsService: ChatNotificationsService,
+  ) {}
 
   /**
-   * Verify that a user is a participant in an accepted match
+   * Verify that a user is a participant in a match whose chat is open
+   * (accepted, or completed/dissolved for reading only). Suspended users
+   * can still read but not write.
    */
-  async verifyMatchAccess(matchId: string, userId: string): Promise<boolean> {
+  async verifyMatchAccess(
+    matchId: string,
+    userId: string,
+    forWriting = false,
+  ): Promise<boolean> {
     const { data, error } = await this.supabase
       .from('transfer_match_participants')
       .select(
         `
         id,
-        transfer_matches!inner(status)
+        transfer_matches!inner(status),
+        users!inner(is_active)
       `,
       )
       .eq('match_id', matchId)
@@ -42,20 +113,27 @@ export class ChatService {
       return false;
     }
 
-    // Check if the match is accepted
     const matchData = data.transfer_matches as any;
-    return matchData?.status === 'accepted';
+    if (forWriting && (data.users as any)?.is_active === false) {
+      return false;
+    }
+    const allowedStatuses = forWriting
+      ? WRITABLE_MATCH_STATUSES
+      : READABLE_MATCH_STATUSES;
+    return allowedStatuses.includes(matchData?.status);
   }
 
   /**
-   * Get messages for a match with pagination
+   * Get messages for a match, newest first
+   * Pages with `before` (a message id or timestamp) so new messages don't
+   * shift the results; `after` pages forward, oldest first. `offset` is
+   * still honoured when neither is given.
    */
   async getMessages(
     matchId: string,
     userId: string,
-    limit: number = 50,
-    offset: number = 0,
-  ): Promise<{ data: ChatMessage[]; count: number }> {
+    query: MessageHistoryQueryDto = {},
+  ): Promise<{ data: ChatMessage[]; count: number; hasMore: boolean }> {
     // Verify user has access to this match's chat
     const hasAccess = await this.verifyMatchAccess(matchId, userId);
     if (!hasAccess) {
@@ -64,102 +142,261 @@ export class ChatService {
       );
     }
 
-    const { data, error, count } = await this.supabase
+    const { limit = 50, offset = 0, before, after } = query;
+    if (before && after) {
+      throw new BadRequestException('Use either before or after, not both');
+    }
+
+    const ascending = Boolean(after);
+    let request = this.supabase
       .from('match_messages')
-      .select(
-        `
-        *,
-        sender:users(id, first_name, last_name, profile_image_url, profile_visible)
-      `,
-        { count: 'exact' },
-      )
+      .select(MESSAGE_SELECT, { count: 'exact' })
+      .eq('match_id', matchId);
+
+    const cursor = before || after;
+    if (cursor) {
+      const { createdAt, id } = await this.resolveCursor(matchId, cursor);
+      const op = after ? 'gt' : 'lt';
+      request = request.or(
+        id
+          ? `created_at.${op}."${createdAt}",and(created_at.eq."${createdAt}",id.${op}.${id})`
+          : `created_at.${op}."${createdAt}"`,
+      );
+    }
+
+    // One extra row tells whether there is another page
+    const start = cursor ? 0 : offset;
+    const { data, error, count } = await request
+      .order('created_at', { ascending })
+      .order('id', { ascending })
+      .range(start, start + limit);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const processedData = (data || [])
+      .slice(0, limit)
+      .map((message) => this.presentMessage(message, userId));
+
+    return {
+      data: processedData,
+      count: count || 0,
+      hasMore: (data || []).length > limit,
+    };
+  }
+
+  /**
+   * Changes to a match's messages since the client's last sync: new and
+   * edited messages, and the ids of removed ones
+   * `updated_at` is stamped by the database (match_messages_stamp_change).
+   * Changes from the last few seconds are left for the next sync, as a
+   * transaction stamped earlier may still be committing.
+   */
+  async syncMessages(
+    matchId: string,
+    userId: string,
+    query: MessageSyncQueryDto = {},
+  ): Promise<MessageSyncResult> {
+    // Verify user has access to this match's chat
+    const hasAccess = await this.verifyMatchAccess(matchId, userId);
+    if (!hasAccess) {
+      throw new ForbiddenException(
+        'You do not have access to this chat. The match must be accepted.',
+      );
+    }
+
+    const { since, limit = 200 } = query;
+    let request = this.supabase
+      .from('match_messages')
+      .select(MESSAGE_SELECT)
       .eq('match_id', matchId)
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
+      .not('updated_at', 'is', null)
+      .lt(
+        'updated_at',
+        new Date(Date.now() - SYNC_SETTLE_SECONDS * 1000).toISOString(),
+      );
+
+    if (since) {
+      const { updatedAt, id } = decodeSyncToken(since);
+      request = request.or(
+        `updated_at.gt."${updatedAt}",and(updated_at.eq."${updatedAt}",id.gt.${id})`,
+      );
+    }
+
+    const { data, error } = await request
+      .order('updated_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit + 1);
 
     if (error) {
       throw new Error(error.message);
     }
 
-    // Process sender visibility - hide profile_image_url if profile_visible is false
-    const processedData = (data || []).map((message) => {
-      if (message.sender && message.sender_id !== userId) {
-        if (message.sender.profile_visible === false) {
-          return {
-            ...message,
-            sender: {
-              ...message.sender,
-              profile_image_url: null,
-            },
-          };
-        }
-      }
-      return message;
-    });
+    const changes: ChatMessage[] = (data || []).slice(0, limit);
+    const last = changes[changes.length - 1];
+    const removed = (message: ChatMessage) =>
+      Boolean(message.deleted_at || message.hidden_at);
 
-    return { data: processedData, count: count || 0 };
+    return {
+      messages: changes
+        .filter((message) => !removed(message))
+        .map((message) => this.presentMessage(message, userId)),
+      deletedIds: changes.filter(removed).map((message) => message.id),
+      syncToken: last
+        ? encodeSyncToken({ updatedAt: last.updated_at!, id: last.id })
+        : since || null,
+      hasMore: (data || []).length > limit,
+    };
   }
 
   /**
-   * Send a message in a match chat
+   * Prepare a message for display: removed messages lose their content,
+   * and private senders their profile image. For a recipient `is_read`
+   * is whether they read it; for the sender, whether everyone did.
+   */
+  presentMessage(message: ChatMessage, viewerId?: string): ChatMessage {
+    let visible = this.applySenderVisibility(message, viewerId);
+    if (viewerId && viewerId !== message.sender_id && message.seen_by) {
+      visible = {
+        ...visible,
+        is_read: message.seen_by.some((read) => read.user_id === viewerId),
+      };
+    }
+    if (!visible.deleted_at && !visible.hidden_at) {
+      return visible;
+    }
+    return { ...visible, message_text: '', attachments: [] };
+  }
+
+  /**
+   * Hide the sender's profile image from other users when their profile
+   * is not visible. Without a viewer (broadcasts) it is hidden from everyone.
+   */
+  applySenderVisibility(message: ChatMessage, viewerId?: string): ChatMessage {
+    if (
+      message.sender &&
+      message.sender_id !== viewerId &&
+      message.sender.profile_visible === false
+    ) {
+      return {
+        ...message,
+        sender: {
+          ...message.sender,
+          profile_image_url: null,
+        },
+      };
+    }
+    return message;
+  }
+
+  /**
+   * Send a message in a match chat, optionally with attachments
+   * Recipients without the chat open are notified in a digest.
    */
   async sendMessage(
     matchId: string,
     userId: string,
-    messageText: string,
+    messageText: string | undefined,
+    attachments: AttachmentUpload[] = [],
   ): Promise<ChatMessage> {
     // Verify user has access to this match's chat
-    const hasAccess = await this.verifyMatchAccess(matchId, userId);
+    const hasAccess = await this.verifyMatchAccess(matchId, userId, true);
     if (!hasAccess) {
       throw new ForbiddenException(
         'You do not have access to this chat. The match must be accepted.',
       );
     }
 
+    const uploaded = await this.chatAttachmentsService.upload(
+      matchId,
+      attachments,
+    );
+
     const { data, error } = await this.supabase
       .from('match_messages')
       .insert({
         match_id: matchId,
         sender_id: userId,
-        message_text: messageText,
+        message_text: messageText || '',
         is_read: false,
       })
-      .select(
-        `
-        *,
-        sender:users(id, first_name, last_name, profile_image_url, profile_visible)
-      `,
-      )
+      .select(MESSAGE_SELECT)
       .single();
 
     if (error) {
+      await this.chatAttachmentsService.removeFiles(uploaded);
       throw new Error(error.message);
     }
 
+    let message: ChatMessage = data;
+    if (uploaded.length > 0) {
+      try {
+        const saved = await this.chatAttachmentsService.saveAttachments(
+          data.id,
+          uploaded,
+        );
+        message = { ...data, attachments: saved };
+      } catch (saveError) {
+        // Don't leave a message whose attachments are missing
+        await this.supabase.from('match_messages').delete().eq('id', data.id);
+        await this.chatAttachmentsService.removeFiles(uploaded);
+        throw saveError;
+      }
+    }
+
+    await this.chatNotificationsService.queueMessage(message);
+    return message;
+  }
+
+  /**
+   * Edit the text of one of the user's own recent messages
+   */
+  async editMessage(
+    matchId: string,
+    messageId: string,
+    userId: string,
+    messageText: string,
+  ): Promise<ChatMessage> {
+    await this.getEditableMessage(matchId, messageId, userId);
+
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from('match_messages')
+      .update({ message_text: messageText, edited_at: now })
+      .eq('id', messageId)
+      .is('deleted_at', null)
+      .is('hidden_at', null)
+      .select(MESSAGE_SELECT)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!data) {
+      throw new ConflictException('This message has been removed');
+    }
+
     return data;
   }
 
   /**
-   * Mark a message as read
+   * Delete one of the user's own recent messages
+   * The row is kept (soft delete) so reports on it can still be reviewed.
    */
-  async markAsRead(
+  async deleteMessage(
     matchId: string,
     messageId: string,
     userId: string,
   ): Promise<void> {
-    // Verify user has access to this match's chat
-    const hasAccess = await this.verifyMatchAccess(matchId, userId);
-    if (!hasAccess) {
-      throw new ForbiddenException('You do not have access to this chat.');
-    }
+    await this.getEditableMessage(matchId, messageId, userId);
 
-    // Only mark messages from other users as read
+    const now = new Date().toISOString();
     const { error } = await this.supabase
       .from('match_messages')
-      .update({ is_read: true, updated_at: new Date().toISOString() })
+      .update({ deleted_at: now })
       .eq('id', messageId)
-      .eq('match_id', matchId)
-      .neq('sender_id', userId);
+      .is('deleted_at', null);
 
     if (error) {
       throw new Error(error.message);
@@ -167,54 +404,116 @@ export class ChatService {
   }
 
   /**
-   * Mark all messages in a match as read for a user
+   * Report another participant's message for moderation
    */
-  async markAllAsRead(matchId: string, userId: string): Promise<void> {
+  async reportMessage(
+    matchId: string,
+    messageId: string,
+    userId: string,
+    reportDto: ReportMessageDto,
+  ): Promise<{ id: string }> {
     // Verify user has access to this match's chat
     const hasAccess = await this.verifyMatchAccess(matchId, userId);
     if (!hasAccess) {
       throw new ForbiddenException('You do not have access to this chat.');
     }
 
-    // Only mark messages from other users as read
-    const { error } = await this.supabase
-      .from('match_messages')
-      .update({ is_read: true, updated_at: new Date().toISOString() })
-      .eq('match_id', matchId)
-      .eq('is_read', false)
-      .neq('sender_id', userId);
+    const message = await this.getMessage(matchId, messageId);
+    if (message.sender_id === userId) {
+      throw new BadRequestException('You cannot report your own message');
+    }
+
+    const { data, error } = await this.supabase
+      .from('message_reports')
+      .insert({
+        message_id: messageId,
+        reporter_id: userId,
+        reason: reportDto.reason,
+        details: reportDto.details || null,
+      })
+      .select('id')
+      .single();
 
     if (error) {
+      if (error.code === '23505') {
+        throw new ConflictException('You have already reported this message');
+      }
       throw new Error(error.message);
     }
+
+    return data;
+  }
+
+  /**
+   * Get a short-lived download URL for a message attachment
+   */
+  async getAttachmentUrl(
+    matchId: string,
+    messageId: string,
+    attachmentId: string,
+    userId: string,
+  ): Promise<{ url: string; expiresAt: string }> {
+    // Verify user has access to this match's chat
+    const hasAccess = await this.verifyMatchAccess(matchId, userId);
+    if (!hasAccess) {
+      throw new ForbiddenException('You do not have access to this chat.');
+    }
+
+    return this.chatAttachmentsService.createSignedUrl(
+      matchId,
+      messageId,
+      attachmentId,
+    );
   }
 
   /**
-   * Get unread message count for a match
+   * Mark a message as read by the user
+   * Returns the id if it was newly read.
    */
-  async getUnreadCount(matchId: string, userId: string): Promise<number> {
+  async markAsRead(
+    matchId: string,
+    messageId: string,
+    userId: string,
+  ): Promise<string[]> {
     // Verify user has access to this match's chat
     const hasAccess = await this.verifyMatchAccess(matchId, userId);
     if (!hasAccess) {
-      return 0;
+      throw new ForbiddenException('You do not have access to this chat.');
     }
 
-    const { count, error } = await this.supabase
-      .from('match_messages')
-      .select('*', { count: 'exact', head: true })
-      .eq('match_id', matchId)
-      .eq('is_read', false)
-      .neq('sender_id', userId);
+    return this.recordReads(matchId, userId, messageId);
+  }
 
-    if (error) {
-      throw new Error(error.message);
+  /**
+   * Mark all messages in a match as read by the user
+   * Returns the ids of the newly read messages.
+   */
+  async markAllAsRead(matchId: string, userId: string): Promise<string[]> {
+    // Verify user has access to this match's chat
+    const hasAccess = await this.verifyMatchAccess(matchId, userId);
+    if (!hasAccess) {
+      throw new ForbiddenException('You do not have access to this chat.');
+    }
+
+    return this.recordReads(matchId, userId);
+  }
+
+  /**
+   * Get the user's unread message count for a match
+   */
+  async getUnreadCount(matchId: string, userId: string): Promise<number> {
+    // Verify user has access to this match's chat
+    const hasAccess = await this.verifyMatchAccess(matchId, userId);
+    if (!hasAccess) {
+      return 0;
     }
 
-    return count || 0;
+    const counts = await this.countUnread(userId, [matchId]);
+    return counts.get(matchId) || 0;
   }
 
   /**
-   * Get total unread count across all user's accepted matches
+   * Get the user's total unread count across their accepted matches
    */
   async getTotalUnreadCount(userId: string): Promise<number> {
     // First get all accepted matches for the user
@@ -233,27 +532,158 @@ export class ChatService {
       throw new Error(participantError.message);
     }
 
-    // Filter to only accepted matches
+    // Filter to matches with an open chat
     const acceptedMatchIds = (participantData || [])
-      .filter((p: any) => p.transfer_matches?.status === 'accepted')
+      .filter((p: any) =>
+        READABLE_MATCH_STATUSES.includes(p.transfer_matches?.status),
+      )
       .map((p) => p.match_id);
 
     if (acceptedMatchIds.length === 0) {
       return 0;
     }
 
-    // Count unread messages across all accepted matches
-    const { count, error } = await this.supabase
+    const counts = await this.countUnread(userId, acceptedMatchIds);
+    let total = 0;
+    for (const count of counts.values()) {
+      total += count;
+    }
+    return total;
+  }
+
+  /**
+   * Record read receipts for one message, or every message from the other
+   * participants when `messageId` is omitted
+   */
+  private async recordReads(
+    matchId: string,
+    userId: string,
+    messageId?: string,
+  ): Promise<string[]> {
+    const { data, error } = await this.supabase.rpc(
+      'mark_match_messages_read',
+      {
+        p_match_id: matchId,
+        p_user_id: userId,
+        p_message_id: messageId || null,
+      },
+    );
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return ((data || []) as { message_id: string }[]).map(
+      (row) => row.message_id,
+    );
+  }
+
+  /**
+   * Unread messages per match for a user (matches with none are omitted)
+   */
+  private async countUnread(
+    userId: string,
+    matchIds: string[],
+  ): Promise<Map<string, number>> {
+    const { data, error } = await this.supabase.rpc('count_unread_messages', {
+      p_user_id: userId,
+      p_match_ids: matchIds,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return new Map(
+      ((data || []) as { match_id: string; unread_count: number }[]).map(
+        (row) => [row.match_id, Number(row.unread_count)],
+      ),
+    );
+  }
+
+  private async getMessage(
+    matchId: string,
+    messageId: string,
+  ): Promise<ChatMessage> {
+    const { data, error } = await this.supabase
       .from('match_messages')
-      .select('*', { count: 'exact', head: true })
-      .in('match_id', acceptedMatchIds)
-      .eq('is_read', false)
-      .neq('sender_id', userId);
+      .select('id, match_id, sender_id, created_at, deleted_at, hidden_at')
+      .eq('id', messageId)
+      .eq('match_id', matchId)
+      .maybeSingle();
 
     if (error) {
       throw new Error(error.message);
     }
+    if (!data || data.deleted_at || data.hidden_at) {
+      throw new NotFoundException('Message not found');
+    }
+
+    return data as ChatMessage;
+  }
+
+  /**
+   * A message the user sent within the edit window, in a chat they can
+   * still write to
+   */
+  private async getEditableMessage(
+    matchId: string,
+    messageId: string,
+    userId: string,
+  ): Promise<ChatMessage> {
+    const hasAccess = await this.verifyMatchAccess(matchId, userId, true);
+    if (!hasAccess) {
+      throw new ForbiddenException(
+        'You do not have access to this chat. The match must be accepted.',
+      );
+    }
+
+    const message = await this.getMessage(matchId, messageId);
+    if (message.sender_id !== userId) {
+      throw new ForbiddenException('You can only change your own messages');
+    }
+
+    const ageMs = Date.now() - new Date(message.created_at).getTime();
+    if (ageMs > MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000) {
+      throw new BadRequestException(
+        `Messages can only be changed within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending`,
+      );
+    }
+
+    return message;
+  }
+
+  /**
+   * Where a history page starts: a message in this match (its timestamp,
+   * with the id breaking ties) or a plain timestamp
+   */
+  private async resolveCursor(
+    matchId: string,
+    cursor: string,
+  ): Promise<{ createdAt: string; id?: string }> {
+    if (!UUID_PATTERN.test(cursor)) {
+      if (!TIMESTAMP_PATTERN.test(cursor) || isNaN(Date.parse(cursor))) {
+        throw new BadRequestException(
+          'Cursor must be a message id or a timestamp',
+        );
+      }
+      return { createdAt: cursor };
+    }
+
+    const { data, error } = await this.supabase
+      .from('match_messages')
+      .select('id, created_at')
+      .eq('id', cursor)
+      .eq('match_id', matchId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!data) {
+      throw new NotFoundException('Message not found');
+    }
 
-    return count || 0;
+    return { createdAt: data.created_at, id: data.id };
   }
 }
@@ -1,8 +1,159 @@
-import { IsString, MinLength, MaxLength } from 'class-validator';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MinLength,
+  MaxLength,
+  Min,
+  Max,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  ATTACHMENT_MIME_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+} from '../chat-attachments.service';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+
+export const REPORT_REASONS = [
+  'harassment',
+  'spam',
+  'scam',
+  'inappropriate',
+  'other',
+] as const;
+
+export const REPORT_ACTIONS = ['hide', 'suspend', 'dismiss'] as const;
+
+export type ReportAction = (typeof REPORT_ACTIONS)[number];
+
+export class MessageAttachmentDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  fileName: string;
+
+  @IsIn(ATTACHMENT_MIME_TYPES)
+  mimeType: string;
+
+  @IsString()
+  @IsNotEmpty()
+  // Base64 of a file at the size limit
+  @MaxLength(Math.ceil(MAX_ATTACHMENT_BYTES / 3) * 4, {
+    message: 'Attachment size exceeds 5MB limit',
+  })
+  base64Data: string;
+}
 
 export class SendMessageDto {
+  // Optional when the message carries attachments
+  @ValidateIf((o) => o.message !== undefined || !o.attachments?.length)
+  @IsString()
+  @MinLength(1)
+  @MaxLength(2000)
+  message?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_ATTACHMENTS_PER_MESSAGE)
+  @ValidateNested({ each: true })
+  @Type(() => MessageAttachmentDto)
+  attachments?: MessageAttachmentDto[];
+}
+
+export class EditMessageDto {
   @IsString()
   @MinLength(1)
   @MaxLength(2000)
   message: string;
 }
+
+export class ReportMessageDto {
+  @IsIn(REPORT_REASONS)
+  reason: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  details?: string;
+}
+
+export class ResolveReportDto {
+  // hide: hide the message; suspend: also deactivate the sender;
+  // dismiss: no action
+  @IsIn(REPORT_ACTIONS)
+  action: ReportAction;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class MessageHistoryQueryDto extends PaginationDto {
+  // Message id or timestamp: messages before it, newest first
+  @IsOptional()
+  @IsString()
+  before?: string;
+
+  // Message id or timestamp: messages after it, oldest first
+  @IsOptional()
+  @IsString()
+  after?: string;
+}
+
+export class MessageSyncQueryDto {
+  // syncToken from the previous sync; omit to start from the beginning
+  @IsOptional()
+  @IsString()
+  since?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 200;
+}
+
+export class MatchRoomDto {
+  @IsUUID()
+  matchId: string;
+}
+
+// Attachments are too large for socket frames and go through REST
+export class SocketSendMessageDto {
+  @IsUUID()
+  matchId: string;
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(2000)
+  message: string;
+}
+
+export class SocketReadMessagesDto {
+  @IsUUID()
+  matchId: string;
+
+  // Omit to mark the whole chat as read
+  @IsOptional()
+  @IsUUID()
+  messageId?: string;
+}
+
+export class TypingDto {
+  @IsUUID()
+  matchId: string;
+
+  @IsBoolean()
+  isTyping: boolean;
+}
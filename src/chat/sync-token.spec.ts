@@ -0,0 +1,27 @@
+import { BadRequestException } from '@nestjs/common';
+import { decodeSyncToken, encodeSyncToken } from './sync-token';
+
+describe('sync tokens', () => {
+  it('round-trips a position, keeping microseconds', () => {
+    const position = {
+      updatedAt: '2026-10-19T10:15:42.123456',
+      id: '6f1c5c2e-8f6a-4c55-9d0a-1b2c3d4e5f60',
+    };
+
+    expect(decodeSyncToken(encodeSyncToken(position))).toEqual(position);
+  });
+
+  it.each([
+    '',
+    'not-a-token',
+    Buffer.from('["yesterday","x"]').toString('base64url'),
+    Buffer.from('["2026-10-19T10:15:42.123456","x),id.gt.0"]').toString(
+      'base64url',
+    ),
+    Buffer.from(
+      '["2026-10-19 (\\"),x","6f1c5c2e-8f6a-4c55-9d0a-1b2c3d4e5f60"]',
+    ).toString('base64url'),
+  ])('rejects %j', (token) => {
+    expect(() => decodeSyncToken(token)).toThrow(BadRequestException);
+  });
+});
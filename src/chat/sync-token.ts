@@ -0,0 +1,46 @@
+import { BadRequestException } from '@nestjs/common';
+
+// Positions end up in PostgREST filter strings, so only well-formed ids and
+// timestamps are accepted
+export const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+export const TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d{1,6})?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Position in a chat's change feed: the last change a client has seen,
+ * ordered by `updated_at` then `id`
+ */
+export interface SyncPosition {
+  updatedAt: string;
+  id: string;
+}
+
+/**
+ * Opaque token handed to clients so they can resume syncing
+ */
+export function encodeSyncToken(position: SyncPosition): string {
+  return Buffer.from(
+    JSON.stringify([position.updatedAt, position.id]),
+  ).toString('base64url');
+}
+
+export function decodeSyncToken(token: string): SyncPosition {
+  try {
+    const [updatedAt, id] = JSON.parse(
+      Buffer.from(token, 'base64url').toString('utf8'),
+    );
+    if (
+      typeof updatedAt === 'string' &&
+      typeof id === 'string' &&
+      TIMESTAMP_PATTERN.test(updatedAt) &&
+      !isNaN(Date.parse(updatedAt)) &&
+      UUID_PATTERN.test(id)
+    ) {
+      return { updatedAt, id };
+    }
+  } catch {
+    // Falls through to the error below
+  }
+  throw new BadRequestException('Invalid sync token');
+}
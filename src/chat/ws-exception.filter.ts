@@ -0,0 +1,21 @@
+import { ArgumentsHost, Catch, HttpException } from '@nestjs/common';
+import { BaseWsExceptionFilter, WsException } from '@nestjs/websockets';
+
+/**
+ * Sends HTTP exceptions thrown by shared services (e.g. a
+ * ForbiddenException from ChatService) to the socket as `exception`
+ * events, instead of the generic "Internal server error"
+ */
+@Catch(HttpException)
+export class WsHttpExceptionFilter extends BaseWsExceptionFilter {
+  catch(exception: HttpException, host: ArgumentsHost) {
+    const response = exception.getResponse();
+    const message =
+      typeof response === 'string'
+        ? response
+        : (response as any).message || exception.message;
+
+    // Same shape as a plain WsException, keeping validation messages a list
+    super.catch(new WsException({ status: 'error', message }), host);
+  }
+}
@@ -0,0 +1,23 @@
+import { INestApplicationContext } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import type { ServerOptions } from 'socket.io';
+
+/**
+ * socket.io adapter applying the same CORS origins as the REST API
+ * (gateway decorators are evaluated before the environment is loaded)
+ */
+export class CorsIoAdapter extends IoAdapter {
+  constructor(
+    app: INestApplicationContext,
+    private corsOrigins: string[],
+  ) {
+    super(app);
+  }
+
+  createIOServer(port: number, options?: ServerOptions) {
+    return super.createIOServer(port, {
+      ...options,
+      cors: { origin: this.corsOrigins, credentials: true },
+    });
+  }
+}
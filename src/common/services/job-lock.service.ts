@@ -0,0 +1,147 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+
+export const MATCHING_LOCK = 'matching';
+export const MATCHING_QUEUE_LOCK = 'matching-queue';
+export const MATCH_EXPIRY_LOCK = 'match-expiry';
+export const MATCH_REMINDER_LOCK = 'match-reminders';
+export const REQUEST_EXPIRY_LOCK = 'request-expiry';
+export const NOTIFICATION_DELIVERY_LOCK = 'notification-delivery';
+
+// Lease length; held leases are renewed while the job keeps running
+const DEFAULT_LEASE_SECONDS = 600;
+
+export interface JobLockLease {
+  name: string;
+  holder: string;
+}
+
+/**
+ * Database-backed leases for background jobs
+ * Serverless handlers and long-running instances share one database, so a
+ * lease row in `job_locks` is the only lock they can all see. A lease that
+ * is not renewed expires, so a crashed instance never blocks a job forever.
+ */
+@Injectable()
+export class JobLockService {
+  private readonly logger = new Logger(JobLockService.name);
+  private readonly instanceId = `${hostname()}:${process.pid}`;
+
+  constructor(@Inject('SUPABASE_CLIENT') private supabase: SupabaseClient) {}
+
+  /**
+   * Try to take a lease, returns null when someone else holds it
+   */
+  async acquire(
+    name: string,
+    context?: Record<string, any>,
+    leaseSeconds = DEFAULT_LEASE_SECONDS,
+  ): Promise<JobLockLease | null> {
+    const holder = `${this.instanceId}:${randomUUID()}`;
+
+    const { data, error } = await this.supabase.rpc('acquire_job_lock', {
+      p_name: name,
+      p_holder: holder,
+      p_lease_seconds: leaseSeconds,
+      p_context: context || null,
+    });
+
+    if (error) throw new Error(error.message);
+
+    return data === true ? { name, holder } : null;
+  }
+
+  /**
+   * Extend a lease that is still held
+   * Returns false once the lease has expired and been taken by someone
+   * else. A failed renewal counts as still held; the next one checks again.
+   */
+  async renew(
+    lease: JobLockLease,
+    leaseSeconds = DEFAULT_LEASE_SECONDS,
+  ): Promise<boolean> {
+    const expiresAt = new Date(Date.now() + leaseSeconds * 1000);
+
+    const { data, error } = await this.supabase
+      .from('job_locks')
+      .update({ expires_at: expiresAt.toISOString() })
+      .eq('name', lease.name)
+      .eq('holder', lease.holder)
+      .select('name');
+
+    if (error) {
+      this.logger.error(`Error renewing job lock ${lease.name}:`, error);
+      return true;
+    }
+
+    return (data || []).length > 0;
+  }
+
+  async release(lease: JobLockLease): Promise<void> {
+    const { error } = await this.supabase
+      .from('job_locks')
+      .delete()
+      .eq('name', lease.name)
+      .eq('holder', lease.holder);
+
+    if (error) {
+      this.logger.error(`Error releasing job lock ${lease.name}:`, error);
+    }
+  }
+
+  /**
+   * Run a task while holding a lease
+   * Returns `{ acquired: false }` without running the task when the lease is
+   * held elsewhere. If the lease is lost while the task runs, `signal` is
+   * aborted; tasks that write in a loop should stop when it is.
+   */
+  async runWithLock<T>(
+    name: string,
+    task: (signal: AbortSignal) => Promise<T>,
+    context?: Record<string, any>,
+    leaseSeconds = DEFAULT_LEASE_SECONDS,
+  ): Promise<{ acquired: true; result: T } | { acquired: false }> {
+    const lease = await this.acquire(name, context, leaseSeconds);
+    if (!lease) return { acquired: false };
+
+    const controller = new AbortController();
+    const heartbeat = setInterval(
+      () => {
+        void this.renew(lease, leaseSeconds).then((held) => {
+          if (held || controller.signal.aborted) return;
+
+          this.logger.error(`Lost job lock ${name} while its job was running`);
+          controller.abort(new Error(`Job lock ${name} was lost`));
+        });
+      },
+      (leaseSeconds * 1000) / 3,
+    );
+
+    try {
+      return { acquired: true, result: await task(controller.signal) };
+    } finally {
+      clearInterval(heartbeat);
+      await this.release(lease);
+    }
+  }
+
+  /**
+   * All leases, with whether each is still held
+   */
+  async listLocks() {
+    const { data, error } = await this.supabase
+      .from('job_locks')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw new Error(error.message);
+
+    const now = Date.now();
+    return (data || []).map((lock) => ({
+      ...lock,
+      is_held: new Date(lock.expires_at).getTime() > now,
+    }));
+  }
+}
@@ -0,0 +1,189 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type LifecycleEntity =
+  | 'transfer_request'
+  | 'transfer_match'
+  | 'match_participant';
+
+export interface ChangeStatusOptions {
+  // Extra filters the row must match, e.g. { user_id } for ownership
+  where?: Record<string, string>;
+  // Other columns written together with the status
+  changes?: Record<string, any>;
+}
+
+const TABLES: Record<'transfer_request' | 'transfer_match', string> = {
+  transfer_request: 'transfer_requests',
+  transfer_match: 'transfer_matches',
+};
+
+/**
+ * Status changes for transfer requests and matches
+ * Allowed moves live in the `status_transitions` table. The database
+ * enforces them on every update (and records each move with its actor in
+ * `audit_logs`); this service checks them up front so callers get a clear
+ * error before any side effects.
+ */
+@Injectable()
+export class LifecycleService {
+  private transitions?: Promise<Map<string, Set<string>>>;
+
+  constructor(@Inject('SUPABASE_CLIENT') private supabase: SupabaseClient) {}
+
+  /**
+   * Statuses an entity may move to from its current status
+   */
+  async getAllowedTransitions(
+    entity: LifecycleEntity,
+    fromStatus: string,
+  ): Promise<string[]> {
+    const transitions = await this.loadTransitions();
+    return [...(transitions.get(`${entity}:${fromStatus}`) || [])];
+  }
+
+  /**
+   * Check a move is allowed, returns the current status
+   */
+  async assertCanChangeStatus(
+    entity: keyof typeof TABLES,
+    id: string,
+    toStatus: string,
+    where: Record<string, string> = {},
+  ): Promise<string> {
+    let query = this.supabase
+      .from(TABLES[entity])
+      .select('status')
+      .eq('id', id);
+    for (const [column, value] of Object.entries(where)) {
+      query = query.eq(column, value);
+    }
+
+    const { data, error } = await query.maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) throw new NotFoundException(`${this.label(entity)} not found`);
+
+    const allowed = await this.getAllowedTransitions(entity, data.status);
+    if (!allowed.includes(toStatus)) {
+      throw new BadRequestException(
+        `Cannot move ${this.label(entity)} from ${data.status} to ${toStatus}`,
+      );
+    }
+
+    return data.status;
+  }
+
+  /**
+   * Move a request or match to a new status on behalf of `actorId`
+   * (null for system jobs)
+   */
+  async changeStatus(
+    entity: keyof typeof TABLES,
+    id: string,
+    toStatus: string,
+    actorId: string | null,
+    options: ChangeStatusOptions = {},
+  ) {
+    const fromStatus = await this.assertCanChangeStatus(
+      entity,
+      id,
+      toStatus,
+      options.where,
+    );
+
+    const { data, error } = await this.supabase
+      .from(TABLES[entity])
+      .update({
+        ...options.changes,
+        status: toStatus,
+        status_changed_by: actorId,
+      })
+      .eq('id', id)
+      // Only if nobody moved it in the meantime
+      .eq('status', fromStatus)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      // check_violation raised by enforce_status_transition()
+      if (error.code === '23514') throw new BadRequestException(error.message);
+      throw new Error(error.message);
+    }
+    if (!data) {
+      throw new ConflictException(
+        `${this.label(entity)} was changed by someone else. Please try again.`,
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Recorded status moves for an entity, oldest first
+   */
+  async getHistory(entities: LifecycleEntity[], id: string) {
+    const { data, error } = await this.supabase
+      .from('audit_logs')
+      .select(
+        'id, entity_type, old_value, new_value, created_at, actor:users(id, first_name, last_name)',
+      )
+      .eq('action', 'status_changed')
+      .in('entity_type', entities)
+      .eq('entity_id', id)
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(error.message);
+
+    return (data || []).map((entry: any) => ({
+      id: entry.id,
+      entity_type: entry.entity_type,
+      from_status: entry.old_value?.status,
+      to_status: entry.new_value?.status,
+      actor: entry.actor,
+      created_at: entry.created_at,
+    }));
+  }
+
+  private loadTransitions(): Promise<Map<string, Set<string>>> {
+    // The table only changes with migrations, so load it once per process
+    if (!this.transitions) {
+      this.transitions = (async () => {
+        const { data, error } = await this.supabase
+          .from('status_transitions')
+          .select('entity_type, from_status, to_status');
+
+        if (error) throw new Error(error.message);
+
+        const transitions = new Map<string, Set<string>>();
+        for (const row of data || []) {
+          const key = `${row.entity_type}:${row.from_status}`;
+          const targets = transitions.get(key) || new Set<string>();
+          targets.add(row.to_status);
+          transitions.set(key, targets);
+        }
+        return transitions;
+      })();
+
+      this.transitions.catch(() => {
+        this.transitions = undefined;
+      });
+    }
+
+    return this.transitions;
+  }
+
+  private label(entity: LifecycleEntity): string {
+    return entity === 'transfer_request'
+      ? 'Transfer request'
+      : entity === 'transfer_match'
+        ? 'Match'
+        : 'Match participant';
+  }
+}
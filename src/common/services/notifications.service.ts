@@ -1,12 +1,7 @@
-import { Injectable, Inject, Logger } from '@nestjs/common';
+import { Injectable, Inject, Logger, NotFoundException } from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
-
-export type NotificationType =
-  | 'match_created'
-  | 'match_accepted'
-  | 'match_rejected'
-  | 'match_expired'
-  | 'request_status_changed';
+import { NotificationDeliveryService } from '../../notifications/notification-delivery.service';
+import type { NotificationType } from '../../notifications/notification-types';
 
 export interface CreateNotificationDto {
   userId: string;
@@ -15,13 +10,18 @@ export interface CreateNotificationDto {
   body: string;
   relatedEntityType?: string;
   relatedEntityId?: string;
+  // Values the text was built from, used to render other channels
+  data?: Record<string, any>;
 }
 
 @Injectable()
 export class NotificationsService {
   private readonly logger = new Logger(NotificationsService.name);
 
-  constructor(@Inject('SUPABASE_CLIENT') private supabase: SupabaseClient) {}
+  constructor(
+    @Inject('SUPABASE_CLIENT') private supabase: SupabaseClient,
+    private notificationDeliveryService: NotificationDeliveryService,
+  ) {}
 
   /**
    * Create a notification for a user
@@ -37,6 +37,7 @@ export class NotificationsService {
           body: dto.body,
           related_entity_type: dto.relatedEntityType,
           related_entity_id: dto.relatedEntityId,
+          data: dto.data,
           is_read: false,
         })
         .select()
@@ -50,6 +51,7 @@ export class NotificationsService {
       this.logger.log(
         `Notification created for user ${dto.userId}: ${dto.title}`,
       );
+      await this.dispatch([data]);
       return data;
     } catch (error) {
       this.logger.error('Exception in createNotification:', error);
@@ -71,6 +73,7 @@ export class NotificationsService {
         body: dto.body,
         related_entity_type: dto.relatedEntityType,
         related_entity_id: dto.relatedEntityId,
+        data: dto.data,
         is_read: false,
       }));
 
@@ -85,6 +88,7 @@ export class NotificationsService {
       }
 
       this.logger.log(`Created ${data?.length || 0} notifications`);
+      await this.dispatch(data || []);
       return data || [];
     } catch (error) {
       this.logger.error('Exception in createBulkNotifications:', error);
@@ -114,15 +118,12 @@ export class NotificationsService {
             body: `A compatible transfer match has been found with ${otherParticipants}. Review and respond to this match.`,
             relatedEntityType: 'match',
             relatedEntityId: matchId,
+            data: { participantNames: otherParticipants },
           };
         },
       );
 
       await this.createBulkNotifications(notifications);
-
-      // TODO: Send push notifications and emails here
-      // await this.sendPushNotifications(participants, matchId);
-      // await this.sendEmailNotifications(participants, matchId);
     } catch (error) {
       this.logger.error('Error notifying match created:', error);
       // Don't throw - notifications are not critical
@@ -147,6 +148,7 @@ export class NotificationsService {
           body: `${acceptedByUserName} has accepted the transfer match. Check the match details.`,
           relatedEntityType: 'match',
           relatedEntityId: matchId,
+          data: { userName: acceptedByUserName },
         }),
       );
 
@@ -173,6 +175,7 @@ export class NotificationsService {
           body: `${rejectedByUserName} has rejected the transfer match. The match has been closed.`,
           relatedEntityType: 'match',
           relatedEntityId: matchId,
+          data: { userName: rejectedByUserName },
         }),
       );
 
@@ -182,6 +185,253 @@ export class NotificationsService {
     }
   }
 
+  /**
+   * Notify the other participants when someone confirms their transfer letter
+   */
+  async notifyTransferConfirmed(
+    matchId: string,
+    confirmedByUserName: string,
+    otherParticipants: Array<{ userId: string }>,
+  ): Promise<void> {
+    try {
+      const notifications: CreateNotificationDto[] = otherParticipants.map(
+        (participant) => ({
+          userId: participant.userId,
+          type: 'transfer_confirmed',
+          title: 'Transfer Letter Confirmed',
+          body: `${confirmedByUserName} has confirmed their official transfer letter was issued.`,
+          relatedEntityType: 'match',
+          relatedEntityId: matchId,
+        }),
+      );
+
+      await this.createBulkNotifications(notifications);
+    } catch (error) {
+      this.logger.error('Error notifying transfer confirmed:', error);
+    }
+  }
+
+  /**
+   * Notify all participants once every transfer in a match is confirmed
+   */
+  async notifyMatchCompleted(
+    matchId: string,
+    participants: Array<{ userId: string }>,
+  ): Promise<void> {
+    try {
+      const notifications: CreateNotificationDto[] = participants.map(
+        (participant) => ({
+          userId: participant.userId,
+          type: 'match_completed',
+          title: 'Transfer Completed',
+          body: 'Every participant has confirmed their transfer letter. Congratulations on your transfer!',
+          relatedEntityType: 'match',
+          relatedEntityId: matchId,
+        }),
+      );
+
+      await this.createBulkNotifications(notifications);
+    } catch (error) {
+      this.logger.error('Error notifying match completed:', error);
+    }
+  }
+
+  /**
+   * Notify the remaining participants when someone withdraws from an
+   * accepted match
+   */
+  async notifyMatchDissolved(
+    matchId: string,
+    withdrawnByUserName: string,
+    otherParticipants: Array<{ userId: string }>,
+  ): Promise<void> {
+    try {
+      const notifications: CreateNotificationDto[] = otherParticipants.map(
+        (participant) => ({
+          userId: participant.userId,
+          type: 'match_dissolved',
+          title: 'Match Dissolved',
+          body: `${withdrawnByUserName} has withdrawn from the transfer match. Your request is back in the matching pool with priority.`,
+          relatedEntityType: 'match',
+          relatedEntityId: matchId,
+        }),
+      );
+
+      await this.createBulkNotifications(notifications);
+    } catch (error) {
+      this.logger.error('Error notifying match dissolved:', error);
+    }
+  }
+
+  /**
+   * Remind participants who have not responded that a match is about to expire
+   */
+  async notifyMatchExpiryReminder(
+    matchId: string,
+    hoursLeft: number,
+    isFinalReminder: boolean,
+    participants: Array<{ userId: string }>,
+  ): Promise<void> {
+    try {
+      const notifications: CreateNotificationDto[] = participants.map(
+        (participant) => ({
+          userId: participant.userId,
+          type: 'match_expiry_reminder',
+          title: isFinalReminder
+            ? 'Final Reminder: Match Expiring Soon'
+            : 'Match Awaiting Your Response',
+          body: `Your transfer match expires in ${this.pluralize(hoursLeft, 'hour')}. Accept or reject it before then or the match will be closed.`,
+          relatedEntityType: 'match',
+          relatedEntityId: matchId,
+          data: { hoursLeft, isFinal: isFinalReminder },
+        }),
+      );
+
+      await this.createBulkNotifications(notifications);
+    } catch (error) {
+      this.logger.error('Error notifying match expiry reminder:', error);
+    }
+  }
+
+  /**
+   * Let participants who already accepted know the match will expire
+   * unless the others respond
+   */
+  async notifyMatchAwaitingOthers(
+    matchId: string,
+    hoursLeft: number,
+    participants: Array<{ userId: string }>,
+  ): Promise<void> {
+    try {
+      const notifications: CreateNotificationDto[] = participants.map(
+        (participant) => ({
+          userId: participant.userId,
+          type: 'match_expiry_reminder',
+          title: 'Match Still Waiting on Others',
+          body: `Not everyone has responded to your transfer match yet. It expires in ${this.pluralize(hoursLeft, 'hour')} unless all participants accept.`,
+          relatedEntityType: 'match',
+          relatedEntityId: matchId,
+          data: { hoursLeft, isFinal: true, awaitingOthers: true },
+        }),
+      );
+
+      await this.createBulkNotifications(notifications);
+    } catch (error) {
+      this.logger.error('Error notifying match awaiting others:', error);
+    }
+  }
+
+  /**
+   * Notify all participants when a match expires without every response
+   */
+  async notifyMatchExpired(
+    matchId: string,
+    participants: Array<{ userId: string }>,
+  ): Promise<void> {
+    try {
+      const notifications: CreateNotificationDto[] = participants.map(
+        (participant) => ({
+          userId: participant.userId,
+          type: 'match_expired',
+          title: 'Match Expired',
+          body: 'Your transfer match expired before every participant responded. Your request stays in the matching pool.',
+          relatedEntityType: 'match',
+          relatedEntityId: matchId,
+        }),
+      );
+
+      await this.createBulkNotifications(notifications);
+    } catch (error) {
+      this.logger.error('Error notifying match expired:', error);
+    }
+  }
+
+  /**
+   * Warn owners that their transfer requests expire soon
+   */
+  async notifyRequestsExpiring(
+    requests: Array<{ requestId: string; userId: string; daysLeft: number }>,
+  ): Promise<void> {
+    try {
+      const notifications: CreateNotificationDto[] = requests.map(
+        (request) => ({
+          userId: request.userId,
+          type: 'request_expiry_warning',
+          title: 'Transfer Request Expiring Soon',
+          body: `Your transfer request expires in ${this.pluralize(request.daysLeft, 'day')}. Renew it to stay in the matching pool.`,
+          relatedEntityType: 'transfer_request',
+          relatedEntityId: request.requestId,
+          data: { daysLeft: request.daysLeft },
+        }),
+      );
+
+      await this.createBulkNotifications(notifications);
+    } catch (error) {
+      this.logger.error('Error notifying requests expiring:', error);
+    }
+  }
+
+  /**
+   * Notify owners that their transfer requests have expired
+   */
+  async notifyRequestsExpired(
+    requests: Array<{ requestId: string; userId: string }>,
+  ): Promise<void> {
+    try {
+      const notifications: CreateNotificationDto[] = requests.map(
+        (request) => ({
+          userId: request.userId,
+          type: 'request_expired',
+          title: 'Transfer Request Expired',
+          body: 'Your transfer request has expired and is no longer being matched. Renew it to return to the matching pool.',
+          relatedEntityType: 'transfer_request',
+          relatedEntityId: request.requestId,
+        }),
+      );
+
+      await this.createBulkNotifications(notifications);
+    } catch (error) {
+      this.logger.error('Error notifying requests expired:', error);
+    }
+  }
+
+  /**
+   * List a user's notifications, newest first
+   */
+  async listNotifications(
+    userId: string,
+    filters: { type?: string; isRead?: string },
+    limit: number,
+    offset: number,
+  ) {
+    let query = this.supabase
+      .from('notifications')
+      .select(
+        '*, deliveries:notification_deliveries(channel, status, attempts, sent_at)',
+        { count: 'exact' },
+      )
+      .eq('user_id', userId);
+
+    if (filters.type) {
+      const types = String(filters.type).split(',');
+      query = query.in('type', types);
+    }
+
+    if (filters.isRead !== undefined) {
+      query = query.eq('is_read', String(filters.isRead) === 'true');
+    }
+
+    query = query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    const { data, error, count } = await query;
+
+    if (error) throw new Error(error.message);
+
+    return { data: data || [], count: count || 0 };
+  }
+
   /**
    * Get user's unread notification count
    */
@@ -204,16 +454,18 @@ export class NotificationsService {
    * Mark notification as read
    */
   async markAsRead(notificationId: string, userId: string): Promise<void> {
-    const { error } = await this.supabase
+    const { data, error } = await this.supabase
       .from('notifications')
       .update({ is_read: true })
       .eq('id', notificationId)
-      .eq('user_id', userId);
+      .eq('user_id', userId)
+      .select('id');
 
     if (error) {
       this.logger.error('Error marking notification as read:', error);
       throw new Error(error.message);
     }
+    if (!data?.length) throw new NotFoundException('Notification not found');
   }
 
   /**
@@ -231,4 +483,41 @@ export class NotificationsService {
       throw new Error(error.message);
     }
   }
+
+  /**
+   * Delete one of a user's notifications
+   */
+  async deleteNotification(
+    notificationId: string,
+    userId: string,
+  ): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('notifications')
+      .delete()
+      .eq('id', notificationId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      this.logger.error('Error deleting notification:', error);
+      throw new Error(error.message);
+    }
+    if (!data?.length) throw new NotFoundException('Notification not found');
+  }
+
+  /**
+   * Hand stored notifications to delivery; the stored copy is what counts,
+   * so delivery problems are logged but never fail the caller
+   */
+  private async dispatch(notifications: any[]): Promise<void> {
+    try {
+      await this.notificationDeliveryService.dispatch(notifications);
+    } catch (error) {
+      this.logger.error('Error queueing notification delivery:', error);
+    }
+  }
+
+  private pluralize(count: number, unit: string): string {
+    return `${count} ${unit}${count === 1 ? '' : 's'}`;
+  }
 }
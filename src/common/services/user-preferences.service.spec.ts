@@ -0,0 +1,33 @@
+import { getQuietHoursEnd } from './user-preferences.service';
+
+// Asia/Colombo is UTC+05:30
+const colombo = (time: string) => new Date(`2026-10-19T${time}:00+05:30`);
+
+describe('getQuietHoursEnd', () => {
+  it('is null without quiet hours', () => {
+    expect(getQuietHoursEnd(colombo('23:00'), null, null)).toBeNull();
+  });
+
+  it('ends a same-day window at its end time', () => {
+    expect(getQuietHoursEnd(colombo('13:15'), '13:00', '15:30')).toEqual(
+      colombo('15:30'),
+    );
+    expect(getQuietHoursEnd(colombo('15:30'), '13:00', '15:30')).toBeNull();
+  });
+
+  it('runs a window past midnight into the next morning', () => {
+    expect(getQuietHoursEnd(colombo('22:45'), '22:00', '07:00')).toEqual(
+      new Date('2026-10-20T07:00:00+05:30'),
+    );
+    expect(getQuietHoursEnd(colombo('06:59'), '22:00', '07:00')).toEqual(
+      colombo('07:00'),
+    );
+    expect(getQuietHoursEnd(colombo('12:00'), '22:00', '07:00')).toBeNull();
+  });
+
+  it('accepts times stored with seconds', () => {
+    expect(getQuietHoursEnd(colombo('23:30'), '22:00:00', '07:00:00')).toEqual(
+      new Date('2026-10-20T07:00:00+05:30'),
+    );
+  });
+});
@@ -0,0 +1,209 @@
+import { Injectable, Inject, BadRequestException } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { NOTIFICATION_TYPES } from '../../notifications/notification-types';
+
+export const NOTIFICATION_CHANNELS = ['push', 'email'] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+// Quiet hours are entered and applied in Sri Lanka time
+const QUIET_HOURS_TIME_ZONE = 'Asia/Colombo';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface UserPreferences {
+  push_notifications_enabled: boolean;
+  email_notifications_enabled: boolean;
+  preferred_language: string | null;
+  notification_opt_outs: Record<string, NotificationChannel[]>;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+}
+
+export type DeliveryDecision =
+  | { action: 'send' }
+  | { action: 'skip'; reason: string }
+  | { action: 'defer'; until: Date };
+
+/**
+ * Preferences used before a user saves any
+ */
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  push_notifications_enabled: true,
+  email_notifications_enabled: true,
+  preferred_language: null,
+  notification_opt_outs: {},
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+};
+
+const PREFERENCE_COLUMNS = Object.keys(DEFAULT_USER_PREFERENCES).join(', ');
+
+/**
+ * A user's language and notification preferences (`user_preferences`)
+ * Profile visibility is `users.profile_visible`, set with the profile.
+ * Every notification channel checks `getDeliveryDecision` before sending.
+ */
+@Injectable()
+export class UserPreferencesService {
+  constructor(@Inject('SUPABASE_CLIENT') private supabase: SupabaseClient) {}
+
+  async getPreferences(userId: string): Promise<UserPreferences> {
+    const { data, error } = await this.supabase
+      .from('user_preferences')
+      .select(PREFERENCE_COLUMNS)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+
+    return this.withDefaults(data);
+  }
+
+  async updatePreferences(
+    userId: string,
+    dto: Partial<UserPreferences>,
+  ): Promise<UserPreferences> {
+    if (dto.notification_opt_outs) {
+      this.validateOptOuts(dto.notification_opt_outs);
+    }
+
+    const current = await this.getPreferences(userId);
+    const quietHoursStart =
+      dto.quiet_hours_start !== undefined
+        ? dto.quiet_hours_start
+        : current.quiet_hours_start;
+    const quietHoursEnd =
+      dto.quiet_hours_end !== undefined
+        ? dto.quiet_hours_end
+        : current.quiet_hours_end;
+    if ((quietHoursStart === null) !== (quietHoursEnd === null)) {
+      throw new BadRequestException(
+        'Quiet hours need both a start and an end time',
+      );
+    }
+
+    const { data, error } = await this.supabase
+      .from('user_preferences')
+      .upsert(
+        {
+          user_id: userId,
+          ...dto,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id' },
+      )
+      .select(PREFERENCE_COLUMNS)
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    return this.withDefaults(data);
+  }
+
+  /**
+   * Whether a notification may go out on a channel right now
+   */
+  async getDeliveryDecision(
+    userId: string,
+    type: string,
+    channel: NotificationChannel,
+    now = new Date(),
+  ): Promise<DeliveryDecision> {
+    const preferences = await this.getPreferences(userId);
+
+    const channelEnabled =
+      channel === 'push'
+        ? preferences.push_notifications_enabled
+        : preferences.email_notifications_enabled;
+    if (!channelEnabled) {
+      return { action: 'skip', reason: `${channel} notifications turned off` };
+    }
+
+    if ((preferences.notification_opt_outs[type] || []).includes(channel)) {
+      return { action: 'skip', reason: `${type} ${channel} turned off` };
+    }
+
+    // Only push makes a sound; emails can wait in the inbox
+    if (channel === 'push') {
+      const until = getQuietHoursEnd(
+        now,
+        preferences.quiet_hours_start,
+        preferences.quiet_hours_end,
+      );
+      if (until) return { action: 'defer', until };
+    }
+
+    return { action: 'send' };
+  }
+
+  private withDefaults(data: any): UserPreferences {
+    const preferences = { ...DEFAULT_USER_PREFERENCES };
+    for (const [key, value] of Object.entries(data || {})) {
+      if (value !== null) (preferences as Record<string, any>)[key] = value;
+    }
+    return preferences;
+  }
+
+  private validateOptOuts(optOuts: Record<string, unknown>): void {
+    for (const [type, channels] of Object.entries(optOuts)) {
+      if (!(NOTIFICATION_TYPES as readonly string[]).includes(type)) {
+        throw new BadRequestException(`Unknown notification type: ${type}`);
+      }
+      if (
+        !Array.isArray(channels) ||
+        channels.some(
+          (c) => !(NOTIFICATION_CHANNELS as readonly string[]).includes(c),
+        )
+      ) {
+        throw new BadRequestException(
+          `Opt-outs for ${type} must be a list of: ${NOTIFICATION_CHANNELS.join(', ')}`,
+        );
+      }
+    }
+  }
+}
+
+/**
+ * End of the quiet hours `now` falls in, or null outside them
+ * Times are "HH:MM" (or "HH:MM:SS") in Asia/Colombo; a window whose start
+ * is after its end runs over midnight.
+ */
+export function getQuietHoursEnd(
+  now: Date,
+  start: string | null,
+  end: string | null,
+): Date | null {
+  if (!start || !end) return null;
+
+  const startMinutes = toMinutes(start);
+  const endMinutes = toMinutes(end);
+  if (startMinutes === endMinutes) return null;
+
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: QUIET_HOURS_TIME_ZONE,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const hour = Number(parts.find((p) => p.type === 'hour')?.value);
+  const minute = Number(parts.find((p) => p.type === 'minute')?.value);
+  const nowMinutes = hour * 60 + minute;
+
+  const inQuietHours =
+    startMinutes < endMinutes
+      ? nowMinutes >= startMinutes && nowMinutes < endMinutes
+      : nowMinutes >= startMinutes || nowMinutes < endMinutes;
+  if (!inQuietHours) return null;
+
+  const minutesLeft =
+    (endMinutes - nowMinutes + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const until = new Date(now.getTime() + minutesLeft * 60 * 1000);
+  until.setSeconds(0, 0);
+  return until;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
@@ -0,0 +1,38 @@
+import sharp from 'sharp';
+
+export interface JpegOptions {
+  // Longest side in pixels
+  size: number;
+  // JPEG quality (0-100)
+  quality: number;
+  // 'cover' crops to a size x size square, 'inside' keeps the aspect ratio
+  fit: 'cover' | 'inside';
+}
+
+export interface CompressedImage {
+  buffer: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Re-encode an uploaded image as a resized JPEG
+ * Applies the EXIF orientation and drops the metadata (including GPS
+ * location). Rejects anything sharp cannot read as an image.
+ */
+export async function compressToJpeg(
+  input: Buffer,
+  { size, quality, fit }: JpegOptions,
+): Promise<CompressedImage> {
+  const { data, info } = await sharp(input)
+    .rotate()
+    .resize(size, size, {
+      fit,
+      position: 'center',
+      withoutEnlargement: fit === 'inside',
+    })
+    .jpeg({ quality })
+    .toBuffer({ resolveWithObject: true });
+
+  return { buffer: data, width: info.width, height: info.height };
+}
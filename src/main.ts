@@ -2,6 +2,7 @@ import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { json, urlencoded } from 'express';
 import { AppModule } from './app.module';
+import { CorsIoAdapter } from './common/adapters/cors-io.adapter';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
@@ -12,11 +13,17 @@ async function bootstrap() {
   app.use(urlencoded({ extended: true, limit: '10mb' }));
 
   // Enable CORS
+  const corsOrigins = process.env.CORS_ORIGIN?.split(',') || [
+    'http://localhost:8081',
+  ];
   app.enableCors({
-    origin: process.env.CORS_ORIGIN?.split(',') || ['http://localhost:8081'],
+    origin: corsOrigins,
     credentials: true,
   });
 
+  // Real-time chat (socket.io) shares the HTTP server and CORS origins
+  app.useWebSocketAdapter(new CorsIoAdapter(app, corsOrigins));
+
   // Enable global validation
   app.useGlobalPipes(
     new ValidationPipe({
@@ -0,0 +1,8 @@
+import { IsOptional, IsDateString } from 'class-validator';
+
+export class ConfirmTransferDto {
+  // Date the transfer takes effect, as stated on the transfer letter
+  @IsOptional()
+  @IsDateString()
+  effectiveDate?: string;
+}
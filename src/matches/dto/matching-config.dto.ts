@@ -0,0 +1,156 @@
+import {
+  IsOptional,
+  IsInt,
+  IsBoolean,
+  IsString,
+  MaxLength,
+  Min,
+  Max,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+class TwoWayScoringDto {
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  mutualPreferenceBase?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  rankBonusPerStep?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  mutualPreferenceCap?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  subjectOverlapMax?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  urgencySame?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  urgencyPartial?: number;
+}
+
+class CycleScoringDto {
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  rankPointsPerStep?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  preferenceCap?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  subjectPointsPerCommon?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  subjectCap?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  urgencyUniform?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  urgencyMixed?: number;
+}
+
+class GeographyScoringDto {
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  sameDistrict?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  sameProvince?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  sameProvinceInflexible?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  nationwide?: number;
+}
+
+class ThresholdsDto {
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  twoWay?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  cycle?: number;
+}
+
+export class MatchingScoringConfigDto {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TwoWayScoringDto)
+  twoWay?: TwoWayScoringDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CycleScoringDto)
+  cycle?: CycleScoringDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GeographyScoringDto)
+  geography?: GeographyScoringDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ThresholdsDto)
+  thresholds?: ThresholdsDto;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  defaultPreferenceRank?: number;
+}
+
+export class UpdateMatchingConfigDto {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MatchingScoringConfigDto)
+  settings?: MatchingScoringConfigDto;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+
+  // Set to false to store the version without switching to it
+  @IsOptional()
+  @IsBoolean()
+  activate?: boolean;
+}
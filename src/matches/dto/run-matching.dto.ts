@@ -0,0 +1,7 @@
+import { IsOptional, IsEnum } from 'class-validator';
+
+export class RunMatchingAlgorithmDto {
+  @IsOptional()
+  @IsEnum(['greedy', 'optimal'])
+  solver?: 'greedy' | 'optimal';
+}
@@ -0,0 +1,69 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { TransferRequest } from './matching-graph.service';
+
+export interface MatchExclusions {
+  // Request id sets that rejected a match together and are still cooling down
+  rejectedCombinations: string[][];
+  // "userA:userB" keys (sorted) for users who must never be matched
+  blockedUserPairs: Set<string>;
+}
+
+/**
+ * Combinations the matching algorithm must not propose: requests that
+ * rejected a match together (until their cooldown ends) and users who
+ * blocked each other
+ */
+@Injectable()
+export class MatchExclusionsService {
+  constructor(@Inject('SUPABASE_CLIENT') private supabase: SupabaseClient) {}
+
+  async loadExclusions(): Promise<MatchExclusions> {
+    const { data: combinations, error: combinationsError } = await this.supabase
+      .from('rejected_match_combinations')
+      .select('request_ids')
+      .gt('cooldown_until', new Date().toISOString());
+
+    if (combinationsError) throw new Error(combinationsError.message);
+
+    const { data: blocks, error: blocksError } = await this.supabase
+      .from('user_blocks')
+      .select('blocker_id, blocked_user_id');
+
+    if (blocksError) throw new Error(blocksError.message);
+
+    return {
+      rejectedCombinations: (combinations || []).map((c) => c.request_ids),
+      blockedUserPairs: new Set(
+        (blocks || []).map((b) =>
+          this.getUserPairKey(b.blocker_id, b.blocked_user_id),
+        ),
+      ),
+    };
+  }
+
+  /**
+   * A cycle is excluded if it contains every request of a rejected
+   * combination (so a rejected pair is never put in any cycle together), or
+   * any two of its teachers blocked each other
+   */
+  isExcluded(cycle: TransferRequest[], exclusions: MatchExclusions): boolean {
+    const requestIds = new Set(cycle.map((r) => r.id));
+    const rejected = exclusions.rejectedCombinations.some((combination) =>
+      combination.every((id) => requestIds.has(id)),
+    );
+    if (rejected) return true;
+
+    for (let i = 0; i < cycle.length; i++) {
+      for (let j = i + 1; j < cycle.length; j++) {
+        const key = this.getUserPairKey(cycle[i].user_id, cycle[j].user_id);
+        if (exclusions.blockedUserPairs.has(key)) return true;
+      }
+    }
+    return false;
+  }
+
+  private getUserPairKey(userA: string, userB: string): string {
+    return userA < userB ? `${userA}:${userB}` : `${userB}:${userA}`;
+  }
+}
@@ -0,0 +1,150 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { NotificationsService } from '../common/services/notifications.service';
+import {
+  JobLockService,
+  MATCH_REMINDER_LOCK,
+} from '../common/services/job-lock.service';
+
+// Hours before expiry at which participants are reminded
+const DEFAULT_REMINDER_HOURS = [72, 24];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Reminders for pending matches that are about to expire
+ * Participants who have not responded are reminded at each configured
+ * offset. At the last offset the reminder is marked final and participants
+ * who already accepted are told the match is still waiting on the others.
+ */
+@Injectable()
+export class MatchRemindersService {
+  private readonly logger = new Logger(MatchRemindersService.name);
+
+  constructor(
+    @Inject('SUPABASE_CLIENT') private supabase: SupabaseClient,
+    private notificationsService: NotificationsService,
+    private jobLockService: JobLockService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Send every reminder that is due, returns the number of participants
+   * notified. Skipped (returns 0) while another instance is sending them.
+   */
+  async sendExpiryReminders(): Promise<number> {
+    const outcome = await this.jobLockService.runWithLock(
+      MATCH_REMINDER_LOCK,
+      () => this.sendDueReminders(),
+    );
+
+    if (!outcome.acquired) {
+      this.logger.log('Match reminders already running elsewhere, skipping');
+      return 0;
+    }
+    return outcome.result;
+  }
+
+  /**
+   * Reminder offsets in hours, largest first
+   */
+  getReminderHours(): number[] {
+    const configured = (
+      this.configService.get<string>('MATCH_EXPIRY_REMINDER_HOURS') || ''
+    )
+      .split(',')
+      .map((value) => parseInt(value.trim()))
+      .filter((hours) => !isNaN(hours) && hours > 0);
+
+    const hours = configured.length > 0 ? configured : DEFAULT_REMINDER_HOURS;
+    return [...new Set(hours)].sort((a, b) => b - a);
+  }
+
+  private async sendDueReminders(): Promise<number> {
+    const reminderHours = this.getReminderHours();
+    const finalHours = reminderHours[reminderHours.length - 1];
+    const now = Date.now();
+
+    const { data: matches, error } = await this.supabase
+      .from('transfer_matches')
+      .select(
+        'id, expires_at, participants:transfer_match_participants(id, user_id, response_status, expiry_reminders_sent)',
+      )
+      .eq('status', 'pending')
+      .gt('expires_at', new Date(now).toISOString())
+      .lte(
+        'expires_at',
+        new Date(now + reminderHours[0] * HOUR_MS).toISOString(),
+      );
+
+    if (error) {
+      this.logger.error('Error loading matches for reminders:', error);
+      throw new Error(error.message);
+    }
+
+    let notifiedCount = 0;
+
+    for (const match of matches || []) {
+      const hoursLeft = (new Date(match.expires_at).getTime() - now) / HOUR_MS;
+      const dueHours = reminderHours.filter((hours) => hoursLeft <= hours);
+      const isFinal = dueHours.includes(finalHours);
+
+      const pending: Array<{ userId: string }> = [];
+      const awaitingOthers: Array<{ userId: string }> = [];
+
+      for (const participant of match.participants || []) {
+        const sent: number[] = participant.expiry_reminders_sent || [];
+        const unsent = dueHours.filter((hours) => !sent.includes(hours));
+        if (unsent.length === 0) continue;
+
+        // Offsets missed by a late run collapse into one reminder
+        if (participant.response_status === 'pending') {
+          pending.push({ userId: participant.user_id });
+        } else if (
+          participant.response_status === 'accepted' &&
+          unsent.includes(finalHours)
+        ) {
+          awaitingOthers.push({ userId: participant.user_id });
+        }
+
+        const { error: updateError } = await this.supabase
+          .from('transfer_match_participants')
+          .update({ expiry_reminders_sent: [...sent, ...unsent] })
+          .eq('id', participant.id);
+
+        if (updateError) {
+          this.logger.error('Error recording sent reminder:', updateError);
+          throw new Error(updateError.message);
+        }
+      }
+
+      const roundedHours = Math.max(1, Math.round(hoursLeft));
+
+      if (pending.length > 0) {
+        await this.notificationsService.notifyMatchExpiryReminder(
+          match.id,
+          roundedHours,
+          isFinal,
+          pending,
+        );
+      }
+
+      if (awaitingOthers.length > 0) {
+        await this.notificationsService.notifyMatchAwaitingOthers(
+          match.id,
+          roundedHours,
+          awaitingOthers,
+        );
+      }
+
+      notifiedCount += pending.length + awaitingOthers.length;
+    }
+
+    if (notifiedCount > 0) {
+      this.logger.log(`Sent match expiry reminders to ${notifiedCount} users`);
+    }
+
+    return notifiedCount;
+  }
+}
@@ -1,8 +1,19 @@
-import { Controller, Get, Post, Param, Query, UseGuards } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
 import { MatchesService } from './matches.service';
 import { MatchingAlgorithmService } from './matching-algorithm.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { AdminGuard } from '../common/guards/admin.guard';
+import { RunMatchingAlgorithmDto } from './dto/run-matching.dto';
+import { ConfirmTransferDto } from './dto/confirm-transfer.dto';
+import { WithdrawFromMatchDto } from './dto/withdraw-from-match.dto';
 import {
   CurrentUser,
   type JwtPayload,
@@ -61,6 +72,14 @@ export class MatchesController {
     return this.matchesService.getMatchDetails(matchId, user.userId);
   }
 
+  @Get(':matchId/history')
+  async getMatchHistory(
+    @Param('matchId') matchId: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.matchesService.getMatchHistory(matchId, user.userId);
+  }
+
   @Get(':matchId/participants')
   async getParticipants(
     @Param('matchId') matchId: string,
@@ -85,16 +104,75 @@ export class MatchesController {
     return this.matchesService.rejectMatch(matchId, user.userId);
   }
 
+  /**
+   * Confirm the official transfer letter was issued (accepted matches only)
+   * POST /api/matches/:matchId/confirm-transfer
+   */
+  @Post(':matchId/confirm-transfer')
+  async confirmTransfer(
+    @Param('matchId') matchId: string,
+    @Body() body: ConfirmTransferDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.matchesService.confirmTransfer(
+      matchId,
+      user.userId,
+      body.effectiveDate,
+    );
+  }
+
+  /**
+   * Back out of an accepted match; the others are re-matched with priority
+   * POST /api/matches/:matchId/withdraw
+   */
+  @Post(':matchId/withdraw')
+  async withdrawFromMatch(
+    @Param('matchId') matchId: string,
+    @Body() body: WithdrawFromMatchDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.matchesService.withdrawFromMatch(
+      matchId,
+      user.userId,
+      body.reason,
+    );
+  }
+
   @Post('run-algorithm')
   @UseGuards(AdminGuard)
-  async runMatchingAlgorithm(@CurrentUser() _user: JwtPayload) {
-    const result = await this.matchingAlgorithmService.runMatchingAlgorithm();
+  async runMatchingAlgorithm(
+    @Body() body: RunMatchingAlgorithmDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    const result = await this.matchingAlgorithmService.runMatchingAlgorithm({
+      trigger: 'admin',
+      triggeredBy: user.userId,
+      solver: body.solver,
+    });
     return {
       message: 'Matching algorithm completed',
       ...result,
     };
   }
 
+  @Post('run-algorithm/dry-run')
+  @UseGuards(AdminGuard)
+  async previewMatchingAlgorithm(
+    @Body() body: RunMatchingAlgorithmDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    const result = await this.matchingAlgorithmService.runMatchingAlgorithm({
+      trigger: 'admin',
+      triggeredBy: user.userId,
+      solver: body.solver,
+      dryRun: true,
+    });
+    return {
+      message: 'Matching algorithm dry run completed. No matches were created.',
+      ...result,
+    };
+  }
+
   @Post('expire-old')
   @UseGuards(AdminGuard)
   async expireOldMatches(@CurrentUser() _user: JwtPayload) {
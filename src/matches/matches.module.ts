@@ -1,20 +1,42 @@
 import { Module } from '@nestjs/common';
 import { MatchesController } from './matches.controller';
+import { MatchingRunsController } from './matching-runs.controller';
+import { MatchingConfigController } from './matching-config.controller';
 import { MatchesService } from './matches.service';
 import { MatchingAlgorithmService } from './matching-algorithm.service';
 import { MatchingSchedulerService } from './matching-scheduler.service';
+import { MatchingGraphService } from './matching-graph.service';
+import { MatchingSolverService } from './matching-solver.service';
+import { MatchingRunsService } from './matching-runs.service';
+import { MatchingConfigService } from './matching-config.service';
+import { MatchingQueueService } from './matching-queue.service';
+import { MatchExclusionsService } from './match-exclusions.service';
+import { MatchRemindersService } from './match-reminders.service';
 import { SupabaseModule } from '../supabase/supabase.module';
-import { NotificationsService } from '../common/services/notifications.service';
+import { JobLockService } from '../common/services/job-lock.service';
+import { LifecycleService } from '../common/services/lifecycle.service';
 
 @Module({
   imports: [SupabaseModule],
-  controllers: [MatchesController],
+  controllers: [
+    MatchesController,
+    MatchingRunsController,
+    MatchingConfigController,
+  ],
   providers: [
     MatchesService,
     MatchingAlgorithmService,
+    MatchingGraphService,
+    MatchingSolverService,
+    MatchingRunsService,
+    MatchingConfigService,
+    MatchExclusionsService,
+    MatchRemindersService,
     MatchingSchedulerService,
-    NotificationsService,
+    MatchingQueueService,
+    JobLockService,
+    LifecycleService,
   ],
-  exports: [MatchesService, MatchingAlgorithmService],
+  exports: [MatchesService, MatchingAlgorithmService, MatchingQueueService],
 })
 export class MatchesModule {}
@@ -5,11 +5,21 @@ import {
   BadRequestException,
   ForbiddenException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { LifecycleService } from '../common/services/lifecycle.service';
+import { NotificationsService } from '../common/services/notifications.service';
+
+const DEFAULT_REJECTION_COOLDOWN_DAYS = 90;
 
 @Injectable()
 export class MatchesService {
-  constructor(@Inject('SUPABASE_CLIENT') private supabase: SupabaseClient) {}
+  constructor(
+    @Inject('SUPABASE_CLIENT') private supabase: SupabaseClient,
+    private lifecycleService: LifecycleService,
+    private notificationsService: NotificationsService,
+    private configService: ConfigService,
+  ) {}
 
   /**
    * Process participants to hide profile data when user has profile_visible set to false
@@ -180,95 +190,199 @@ export class MatchesService {
   }
 
   async acceptMatch(matchId: string, userId: string) {
-    const { data, error } = await this.supabase
-      .from('transfer_match_participants')
-      .update({
-        response_status: 'accepted',
-        responded_at: new Date().toISOString(),
-      })
-      .eq('match_id', matchId)
-      .eq('user_id', userId)
-      .select()
-      .single();
+    return this.respondToMatch(matchId, userId, 'accepted');
+  }
 
-    if (error) throw new Error(error.message);
+  async rejectMatch(matchId: string, userId: string) {
+    return this.respondToMatch(matchId, userId, 'rejected');
+  }
 
-    // Check if all participants have accepted
-    const { data: allParticipants } = await this.supabase
+  /**
+   * Record a participant's response in one transaction (respond_to_match):
+   * one rejection rejects the whole match and returns the requests to
+   * 'submitted'; once everyone accepts, the requests become 'matched'.
+   * A rejected combination is not proposed again until its cooldown ends.
+   * The other participants are notified unless the response is a repeat.
+   */
+  private async respondToMatch(
+    matchId: string,
+    userId: string,
+    response: 'accepted' | 'rejected',
+  ) {
+    const { data: participants } = await this.supabase
       .from('transfer_match_participants')
-      .select('response_status')
+      .select('user_id, response_status, user:users(first_name, last_name)')
       .eq('match_id', matchId);
 
-    const allAccepted = allParticipants?.every(
-      (p) => p.response_status === 'accepted',
-    );
+    const { data, error } = await this.supabase.rpc('respond_to_match', {
+      p_match_id: matchId,
+      p_user_id: userId,
+      p_response: response,
+      p_cooldown_days: this.getRejectionCooldownDays(),
+    });
 
-    if (allAccepted) {
-      // Update match status
-      await this.supabase
-        .from('transfer_matches')
-        .update({ status: 'accepted' })
-        .eq('id', matchId);
+    if (error) this.throwMatchFunctionError(error);
+
+    const respondedBy: any = participants?.find((p) => p.user_id === userId);
+    if (participants && respondedBy?.response_status !== response) {
+      const userName = `${respondedBy?.user?.first_name} ${respondedBy?.user?.last_name}`;
+      const others = participants
+        .filter((p) => p.user_id !== userId)
+        .map((p) => ({ userId: p.user_id }));
+
+      if (response === 'accepted') {
+        await this.notificationsService.notifyMatchAccepted(
+          matchId,
+          userId,
+          userName,
+          others,
+        );
+      } else {
+        await this.notificationsService.notifyMatchRejected(
+          matchId,
+          userName,
+          others,
+        );
+      }
+    }
 
-      // Get all transfer request IDs in this match
-      const { data: participants } = await this.supabase
-        .from('transfer_match_participants')
-        .select('transfer_request_id')
-        .eq('match_id', matchId);
+    return data;
+  }
+
+  /**
+   * Confirm the participant's official transfer letter was issued
+   * (confirm_transfer). Once everyone has confirmed, the match and all
+   * requests are completed.
+   */
+  async confirmTransfer(
+    matchId: string,
+    userId: string,
+    effectiveDate?: string,
+  ) {
+    const { data, error } = await this.supabase.rpc('confirm_transfer', {
+      p_match_id: matchId,
+      p_user_id: userId,
+      p_effective_date: effectiveDate || null,
+    });
 
-      const requestIds = participants?.map((p) => p.transfer_request_id) || [];
+    if (error) this.throwMatchFunctionError(error);
+
+    // Confirming again only updates the effective date
+    if (!data.newly_confirmed) {
+      return { ...data.participant, match_completed: data.match_completed };
+    }
+
+    const { data: participants } = await this.supabase
+      .from('transfer_match_participants')
+      .select('user_id, user:users(first_name, last_name)')
+      .eq('match_id', matchId);
+
+    if (participants) {
+      const confirmedBy: any = participants.find((p) => p.user_id === userId);
+      const others = participants
+        .filter((p) => p.user_id !== userId)
+        .map((p) => ({ userId: p.user_id }));
+
+      await this.notificationsService.notifyTransferConfirmed(
+        matchId,
+        `${confirmedBy?.user?.first_name} ${confirmedBy?.user?.last_name}`,
+        others,
+      );
 
-      // Update all transfer requests to 'matched' status
-      if (requestIds.length > 0) {
-        await this.supabase
-          .from('transfer_requests')
-          .update({ status: 'matched' })
-          .in('id', requestIds);
+      if (data.match_completed) {
+        await this.notificationsService.notifyMatchCompleted(
+          matchId,
+          participants.map((p) => ({ userId: p.user_id })),
+        );
       }
     }
 
-    return data;
+    return {
+      ...data.participant,
+      match_completed: data.match_completed,
+    };
   }
 
-  async rejectMatch(matchId: string, userId: string) {
-    const { data, error } = await this.supabase
-      .from('transfer_match_participants')
-      .update({
-        response_status: 'rejected',
-        responded_at: new Date().toISOString(),
-      })
-      .eq('match_id', matchId)
-      .eq('user_id', userId)
-      .select()
-      .single();
+  /**
+   * Back out of an accepted match (withdraw_from_match). The match is
+   * dissolved and the other participants' requests go back to the matching
+   * pool with priority.
+   */
+  async withdrawFromMatch(matchId: string, userId: string, reason?: string) {
+    const { data, error } = await this.supabase.rpc('withdraw_from_match', {
+      p_match_id: matchId,
+      p_user_id: userId,
+      p_reason: reason || null,
+    });
 
-    if (error) throw new Error(error.message);
+    if (error) this.throwMatchFunctionError(error);
 
-    // Get all transfer request IDs in this match
     const { data: participants } = await this.supabase
       .from('transfer_match_participants')
-      .select('transfer_request_id')
+      .select('user_id, user:users(first_name, last_name)')
       .eq('match_id', matchId);
 
-    const requestIds = participants?.map((p) => p.transfer_request_id) || [];
-
-    // Update match status to rejected (one rejection rejects the whole match)
-    await this.supabase
-      .from('transfer_matches')
-      .update({ status: 'rejected' })
-      .eq('id', matchId);
+    if (participants) {
+      const withdrawnBy: any = participants.find((p) => p.user_id === userId);
 
-    // Return transfer requests back to 'submitted' status so they can be matched again
-    if (requestIds.length > 0) {
-      await this.supabase
-        .from('transfer_requests')
-        .update({ status: 'submitted' })
-        .in('id', requestIds);
+      await this.notificationsService.notifyMatchDissolved(
+        matchId,
+        `${withdrawnBy?.user?.first_name} ${withdrawnBy?.user?.last_name}`,
+        participants
+          .filter((p) => p.user_id !== userId)
+          .map((p) => ({ userId: p.user_id })),
+      );
     }
 
     return data;
   }
 
+  /**
+   * Map errors raised by the match database functions to HTTP errors
+   * P0002: match or participant not found, P0001: match in the wrong state,
+   * 23514: status move not allowed
+   */
+  private throwMatchFunctionError(error: {
+    code: string;
+    message: string;
+  }): never {
+    if (error.code === 'P0002') throw new NotFoundException(error.message);
+    if (error.code === 'P0001' || error.code === '23514') {
+      throw new BadRequestException(error.message);
+    }
+    throw new Error(error.message);
+  }
+
+  private getRejectionCooldownDays(): number {
+    const configured = parseInt(
+      this.configService.get<string>('MATCH_REJECTION_COOLDOWN_DAYS') || '',
+    );
+    return isNaN(configured) || configured < 0
+      ? DEFAULT_REJECTION_COOLDOWN_DAYS
+      : configured;
+  }
+
+  /**
+   * Status moves recorded for a match and its participants, oldest first
+   */
+  async getMatchHistory(matchId: string, userId: string) {
+    const { data: participant } = await this.supabase
+      .from('transfer_match_participants')
+      .select('id')
+      .eq('match_id', matchId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!participant) {
+      throw new ForbiddenException('You are not a participant in this match');
+    }
+
+    return this.lifecycleService.getHistory(
+      ['transfer_match', 'match_participant'],
+      matchId,
+    );
+  }
+
   async getParticipants(matchId: string, userId: string) {
     // Verify user is a participant in this match
     const { data: isParticipant, error: participantError } = await this.supabase
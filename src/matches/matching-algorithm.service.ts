@@ -1,32 +1,43 @@
-import { Injectable, Inject, Logger } from '@nestjs/common';
+import { Injectable, Inject, Logger, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { SupabaseClient } from '@supabase/supabase-js';
 import { NotificationsService } from '../common/services/notifications.service';
-
-interface TransferRequest {
-  id: string;
-  user_id: string;
-  current_school_id: number;
-  appointment_category_id: number;
-  medium_of_instruction: string;
-  geographic_flexibility: 'district_only' | 'province_wide' | 'nationwide';
-  urgency_level: 'normal' | 'high';
-  willing_temporary_transfer: boolean;
-  status: string;
-  preferred_schools: Array<{
-    preferred_school_id: number;
-    preference_rank: number;
-  }>;
-  subjects: number[];
-  current_school?: {
-    division?: {
-      zone?: {
-        district?: { id: number; province?: { id: number } };
-      };
-    };
-  };
-}
-
-interface CompatibilityScore {
+import {
+  JobLockService,
+  MATCHING_LOCK,
+  MATCH_EXPIRY_LOCK,
+} from '../common/services/job-lock.service';
+import {
+  MatchingGraphService,
+  MATCH_TYPE_BY_CYCLE_LENGTH,
+  MAX_SUPPORTED_CYCLE_LENGTH,
+  MIN_CYCLE_LENGTH,
+  type TransferRequest,
+} from './matching-graph.service';
+import {
+  MatchingSolverService,
+  MATCHING_SOLVERS,
+  type MatchingSolver,
+} from './matching-solver.service';
+import {
+  MatchingRunsService,
+  type MatchingRunError,
+  type MatchingRunTrigger,
+} from './matching-runs.service';
+import {
+  MatchingConfigService,
+  type MatchingScoringConfig,
+} from './matching-config.service';
+import {
+  MatchExclusionsService,
+  type MatchExclusions,
+} from './match-exclusions.service';
+
+export const MATCH_ALGORITHM_VERSION = 'v2.0';
+
+const DEFAULT_MAX_CYCLE_LENGTH = 4;
+
+export interface CompatibilityScore {
   total: number;
   breakdown: {
     mutualSchools: number;
@@ -34,26 +45,136 @@ interface CompatibilityScore {
     subjects: number;
     urgency: number;
   };
+  // Human-readable explanation of the score, shown to participants
+  reasons: string[];
+}
+
+export interface MatchCandidate {
+  requests: TransferRequest[];
+  compatibility: CompatibilityScore;
+}
+
+export interface MatchingRunOptions {
+  trigger?: MatchingRunTrigger;
+  triggeredBy?: string;
+  solver?: MatchingSolver;
+  // Plan matches without writing anything or sending notifications
+  dryRun?: boolean;
+  // Only look for cycles through this request (incremental pass)
+  requestId?: string;
+}
+
+export interface PlannedMatch {
+  matchType: string;
+  compatibilityScore: number;
+  breakdown: CompatibilityScore['breakdown'];
+  reasons: string[];
+  participants: Array<{
+    swapPosition: number;
+    transferRequestId: string;
+    userId: string;
+    currentSchoolId: number;
+    // School this teacher moves to (the next participant's current school)
+    destinationSchoolId: number;
+  }>;
+}
+
+export interface MatchingRunResult {
+  runId: string | null;
+  algorithmVersion: string;
+  configVersion: number;
+  matchesCreated: number;
+  requestsProcessed: number;
+  solver: MatchingSolver;
+  dryRun: boolean;
+  eligibleRequests: number;
+  candidatesFound: number;
+  errors: number;
+  // Matches the run would create (dry runs only)
+  plannedMatches?: PlannedMatch[];
 }
 
 @Injectable()
 export class MatchingAlgorithmService {
   private readonly logger = new Logger(MatchingAlgorithmService.name);
 
+  // Runs that write matches are serialized, so the nightly full run and
+  // incremental passes never pick the same requests at the same time
+  private runLock: Promise<unknown> = Promise.resolve();
+
   constructor(
     @Inject('SUPABASE_CLIENT') private supabase: SupabaseClient,
     private notificationsService: NotificationsService,
+    private matchingGraphService: MatchingGraphService,
+    private matchingSolverService: MatchingSolverService,
+    private matchingRunsService: MatchingRunsService,
+    private matchingConfigService: MatchingConfigService,
+    private jobLockService: JobLockService,
+    private matchExclusionsService: MatchExclusionsService,
+    private configService: ConfigService,
   ) {}
 
   /**
    * Main method to run the matching algorithm
    * Finds compatible transfer requests and creates matches
+   * Every run except a dry run is recorded in the matching run history.
+   * Runs that write matches hold the shared matching lock; if another
+   * instance holds it a ConflictException is thrown.
+   */
+  async runMatchingAlgorithm(
+    options: MatchingRunOptions = {},
+  ): Promise<MatchingRunResult> {
+    if (options.dryRun) return this.executeRun(options);
+
+    return this.runExclusive(async () => {
+      const outcome = await this.jobLockService.runWithLock(
+        MATCHING_LOCK,
+        (signal) => this.executeRun(options, signal),
+        {
+          trigger: options.trigger || 'admin',
+          triggeredBy: options.triggeredBy,
+          requestId: options.requestId,
+        },
+      );
+
+      if (!outcome.acquired) {
+        throw new ConflictException('Another matching run is in progress');
+      }
+      return outcome.result;
+    });
+  }
+
+  /**
+   * Run an incremental pass that only looks for cycles through one request
    */
-  async runMatchingAlgorithm(): Promise<{
-    matchesCreated: number;
-    requestsProcessed: number;
-  }> {
-    this.logger.log('Starting matching algorithm...');
+  async runIncrementalMatching(requestId: string): Promise<MatchingRunResult> {
+    return this.runMatchingAlgorithm({ trigger: 'incremental', requestId });
+  }
+
+  private async executeRun(
+    options: MatchingRunOptions,
+    signal?: AbortSignal,
+  ): Promise<MatchingRunResult> {
+    const solver = options.solver || this.getDefaultSolver();
+    const dryRun = options.dryRun === true;
+    const requestId = options.requestId;
+    this.logger.log(
+      `Starting matching algorithm (${solver} solver${dryRun ? ', dry run' : ''}${requestId ? `, request ${requestId}` : ''})...`,
+    );
+
+    const config = await this.matchingConfigService.getActiveConfig();
+    const algorithmVersion = this.getAlgorithmVersion(config.version);
+
+    // Dry runs write nothing, not even to the run history
+    const runId = dryRun
+      ? null
+      : await this.matchingRunsService.startRun({
+          trigger: options.trigger || 'admin',
+          triggeredBy: options.triggeredBy,
+          algorithmVersion,
+          configVersion: config.version,
+          solver,
+        });
 
     try {
       // Get all submitted requests that are not in any active match
@@ -74,74 +195,239 @@ export class MatchingAlgorithmService {
         );
       }
 
+      const candidates =
+        eligibleRequests.length < 2
+          ? []
+          : this.findCandidates(
+              eligibleRequests,
+              config.settings,
+              await this.matchExclusionsService.loadExclusions(),
+              requestId,
+            );
+
       if (eligibleRequests.length < 2) {
         this.logger.log('Not enough requests to create matches');
-        return { matchesCreated: 0, requestsProcessed: 0 };
-      }
-
-      let matchesCreated = 0;
-      const processedRequestIds = new Set<string>();
-
-      // Try to find three-way matches first (higher priority)
-      if (eligibleRequests.length >= 3) {
-        const threeWayMatches = await this.findThreeWayMatches(
-          eligibleRequests,
-          processedRequestIds,
-        );
-        matchesCreated += threeWayMatches;
+      } else {
+        this.logger.log(`Found ${candidates.length} candidate transfer cycles`);
       }
 
-      // Try to find two-way matches
-      for (let i = 0; i < eligibleRequests.length; i++) {
-        if (processedRequestIds.has(eligibleRequests[i].id)) continue;
-
-        for (let j = i + 1; j < eligibleRequests.length; j++) {
-          if (processedRequestIds.has(eligibleRequests[j].id)) continue;
+      const selected = this.matchingSolverService.select(candidates, solver);
+      this.logger.log(
+        `Selected ${selected.length} matches with total compatibility ${this.matchingSolverService.getTotalWeight(selected)}`,
+      );
 
-          const request1 = eligibleRequests[i];
-          const request2 = eligibleRequests[j];
+      const createdMatches: MatchCandidate[] = [];
+      const errors: MatchingRunError[] = [];
 
-          // Skip if both requests belong to the same user
-          if (request1.user_id === request2.user_id) continue;
+      if (dryRun) {
+        createdMatches.push(...selected);
+      } else {
+        for (const candidate of selected) {
+          // Another instance may be matching the same requests now
+          signal?.throwIfAborted();
 
-          // Check if they can be matched
-          const compatibility = this.calculateCompatibility(request1, request2);
+          const requestIds = candidate.requests.map((r) => r.id);
 
-          if (compatibility.total >= 50) {
-            // Minimum 50% compatibility required
-            const matchId = await this.createTwoWayMatch(
-              request1,
-              request2,
-              compatibility,
+          try {
+            await this.createMatch(
+              candidate.requests,
+              candidate.compatibility,
+              algorithmVersion,
             );
-
-            if (matchId) {
-              matchesCreated++;
-              processedRequestIds.add(request1.id);
-              processedRequestIds.add(request2.id);
-              this.logger.log(
-                `Created match between ${request1.id} and ${request2.id} (score: ${compatibility.total})`,
-              );
-              break; // Move to next request1
-            }
+            createdMatches.push(candidate);
+            this.logger.log(
+              `Created ${this.getMatchType(candidate.requests)} match: ${requestIds.join(' → ')} (score: ${candidate.compatibility.total})`,
+            );
+          } catch (error) {
+            this.logger.error(
+              `Error creating match for ${requestIds.join(', ')}:`,
+              error,
+            );
+            errors.push({
+              message: error instanceof Error ? error.message : 'Unknown',
+              requestIds,
+            });
           }
         }
       }
 
+      const requestsProcessed = createdMatches.reduce(
+        (sum, c) => sum + c.requests.length,
+        0,
+      );
+
+      await this.matchingRunsService.finishRun(runId, {
+        eligibleRequestCount: eligibleRequests.length,
+        candidatesFound: candidates.length,
+        requestsProcessed,
+        createdMatches,
+        errors,
+      });
+
       this.logger.log(
-        `Matching algorithm completed. Created ${matchesCreated} matches, processed ${processedRequestIds.size} requests`,
+        `Matching algorithm completed. ${dryRun ? 'Planned' : 'Created'} ${createdMatches.length} matches, processed ${requestsProcessed} requests`,
       );
 
       return {
-        matchesCreated,
-        requestsProcessed: processedRequestIds.size,
+        runId,
+        algorithmVersion,
+        configVersion: config.version,
+        matchesCreated: dryRun ? 0 : createdMatches.length,
+        requestsProcessed,
+        solver,
+        dryRun,
+        eligibleRequests: eligibleRequests.length,
+        candidatesFound: candidates.length,
+        errors: errors.length,
+        ...(dryRun && {
+          plannedMatches: createdMatches.map((c) => this.toPlannedMatch(c)),
+        }),
       };
     } catch (error) {
       this.logger.error('Error running matching algorithm:', error);
+      await this.matchingRunsService.failRun(runId, error);
       throw error;
     }
   }
 
+  /**
+   * Longest cycle (number of teachers) the algorithm searches for
+   */
+  getMaxCycleLength(): number {
+    const configured = parseInt(
+      this.configService.get<string>('MATCHING_MAX_CYCLE_LENGTH') || '',
+    );
+    if (isNaN(configured)) return DEFAULT_MAX_CYCLE_LENGTH;
+
+    return Math.max(
+      MIN_CYCLE_LENGTH,
+      Math.min(configured, MAX_SUPPORTED_CYCLE_LENGTH),
+    );
+  }
+
+  /**
+   * Solver used when a run does not ask for one explicitly
+   */
+  getDefaultSolver(): MatchingSolver {
+    const configured = this.configService.get<string>('MATCHING_SOLVER');
+    return MATCHING_SOLVERS.find((s) => s === configured) || 'greedy';
+  }
+
+  /**
+   * Find all transfer cycles that pass the compatibility threshold, skipping
+   * rejected combinations and blocked users
+   * Cycles with rematch-priority requests come first, then longer cycles
+   * (they are harder to form and are the only option for many teachers),
+   * then cycles in the order they were found.
+   */
+  private findCandidates(
+    eligibleRequests: TransferRequest[],
+    config: MatchingScoringConfig,
+    exclusions: MatchExclusions,
+    requestId?: string,
+  ): MatchCandidate[] {
+    const cycles = requestId
+      ? this.matchingGraphService.findCyclesThrough(
+          eligibleRequests,
+          requestId,
+          this.getMaxCycleLength(),
+        )
+      : this.matchingGraphService.findCycles(
+          eligibleRequests,
+          this.getMaxCycleLength(),
+        );
+
+    const candidates: MatchCandidate[] = [];
+    let excludedCount = 0;
+
+    for (const cycle of cycles) {
+      if (this.matchExclusionsService.isExcluded(cycle, exclusions)) {
+        excludedCount++;
+        continue;
+      }
+
+      if (cycle.length === 2) {
+        const compatibility = this.calculateCompatibility(
+          cycle[0],
+          cycle[1],
+          config,
+        );
+
+        // Minimum compatibility required (50% by default)
+        if (compatibility.total >= config.thresholds.twoWay) {
+          candidates.push({ requests: cycle, compatibility });
+        }
+        continue;
+      }
+
+      const compatibility = this.calculateCycleCompatibility(cycle, config);
+
+      this.logger.debug(
+        `Cycle compatibility for ${cycle.map((r) => r.id).join(', ')}: ${compatibility.total}`,
+      );
+
+      // Lower threshold for circular swaps (40% by default)
+      if (compatibility.total >= config.thresholds.cycle) {
+        candidates.push({ requests: cycle, compatibility });
+      }
+    }
+
+    if (excludedCount > 0) {
+      this.logger.log(
+        `Skipped ${excludedCount} cycles with rejected combinations or blocked users`,
+      );
+    }
+
+    // Cycles that re-match requests from a dissolved match go first.
+    // Array.prototype.sort is stable, so discovery order is kept within a length
+    return candidates.sort(
+      (a, b) =>
+        this.countPriorityRequests(b) - this.countPriorityRequests(a) ||
+        b.requests.length - a.requests.length,
+    );
+  }
+
+  private countPriorityRequests(candidate: MatchCandidate): number {
+    return candidate.requests.filter((r) => r.rematch_priority).length;
+  }
+
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.runLock.then(task);
+    this.runLock = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Version recorded on matches: algorithm version plus scoring config
+   * version, e.g. "v2.0-c3"
+   */
+  private getAlgorithmVersion(configVersion: number): string {
+    return `${MATCH_ALGORITHM_VERSION}-c${configVersion}`;
+  }
+
+  private getMatchType(requests: TransferRequest[]): string {
+    return MATCH_TYPE_BY_CYCLE_LENGTH[requests.length];
+  }
+
+  private toPlannedMatch(candidate: MatchCandidate): PlannedMatch {
+    const { requests, compatibility } = candidate;
+
+    return {
+      matchType: this.getMatchType(requests),
+      compatibilityScore: compatibility.total,
+      breakdown: compatibility.breakdown,
+      reasons: compatibility.reasons,
+      participants: requests.map((req, index) => ({
+        swapPosition: index + 1,
+        transferRequestId: req.id,
+        userId: req.user_id,
+        currentSchoolId: req.current_school_id,
+        destinationSchoolId:
+          requests[(index + 1) % requests.length].current_school_id,
+      })),
+    };
+  }
+
   /**
    * Get all eligible transfer requests for matching
    */
@@ -161,6 +447,7 @@ export class MatchingAlgorithmService {
         willing_temporary_transfer,
         status,
         expires_at,
+        rematch_priority,
         current_school:schools!current_school_id(
           id,
           division:divisions(
@@ -279,91 +566,98 @@ export class MatchingAlgorithmService {
   }
 
   /**
-   * Check if two requests have at least one common subject
-   * Returns true if they share at least one subject, false otherwise
-   */
-  private hasCommonSubjects(
-    request1: TransferRequest,
-    request2: TransferRequest,
-  ): boolean {
-    // Both must have subjects defined
-    if (request1.subjects.length === 0 || request2.subjects.length === 0) {
-      return false;
-    }
-
-    // Check for at least one common subject
-    return request1.subjects.some((s) => request2.subjects.includes(s));
-  }
-
-  /**
-   * Calculate three-way match compatibility score
+   * Calculate compatibility score for a circular swap (three or more teachers)
+   * The cycle is ordered so each request moves to the next request's school,
+   * and the last one moves to the first one's school.
    */
-
-  private calculateThreeWayCompatibility(
-    reqA: TransferRequest,
-    reqB: TransferRequest,
-    reqC: TransferRequest,
-  ): number {
-    let score = 0;
-
-    // 1. Preference rank scoring (40 points max)
+  private calculateCycleCompatibility(
+    cycle: TransferRequest[],
+    config: MatchingScoringConfig,
+  ): CompatibilityScore {
+    const weights = config.cycle;
+    const legs = cycle.map((from, index) => ({
+      from,
+      to: cycle[(index + 1) % cycle.length],
+    }));
+    const reasons: string[] = [];
+
+    // 1. Preference rank scoring (40 points max by default)
     // How highly each teacher ranked their destination
-    // A → B's school, B → C's school, C → A's school
-    const aRankForB =
-      reqA.preferred_schools.find(
-        (ps) => ps.preferred_school_id === reqB.current_school_id,
-      )?.preference_rank || 5;
-    const bRankForC =
-      reqB.preferred_schools.find(
-        (ps) => ps.preferred_school_id === reqC.current_school_id,
-      )?.preference_rank || 5;
-    const cRankForA =
-      reqC.preferred_schools.find(
-        (ps) => ps.preferred_school_id === reqA.current_school_id,
-      )?.preference_rank || 5;
-
     // Higher rank (lower number) = more points
     // Rank 1 = 10 points, Rank 2 = 8 points, etc.
-    const preferenceScore =
-      (6 - aRankForB) * 2 + (6 - bRankForC) * 2 + (6 - cRankForA) * 2;
-    score += Math.min(preferenceScore, 40);
-
-    // 2. Subject overlap scoring (30 points max)
-    const abSubjects = reqA.subjects.filter((s) =>
-      reqB.subjects.includes(s),
-    ).length;
-    const bcSubjects = reqB.subjects.filter((s) =>
-      reqC.subjects.includes(s),
-    ).length;
-    const caSubjects = reqC.subjects.filter((s) =>
-      reqA.subjects.includes(s),
-    ).length;
-    const avgSubjectOverlap = (abSubjects + bcSubjects + caSubjects) / 3;
-    score += Math.min(Math.round(avgSubjectOverlap * 10), 30);
-
-    // 3. Geographic feasibility (20 points max)
+    const preferenceScore = legs.reduce((sum, { from, to }) => {
+      const rank = this.getPreferenceRank(from, to, config);
+      return (
+        sum +
+        (config.defaultPreferenceRank + 1 - rank) * weights.rankPointsPerStep
+      );
+    }, 0);
+    const mutualSchools = Math.min(preferenceScore, weights.preferenceCap);
+    const ranks = legs.map(({ from, to }) =>
+      this.getPreferenceRank(from, to, config),
+    );
+    reasons.push(
+      ranks.every((rank) => rank === ranks[0])
+        ? `every teacher gets their rank ${ranks[0]} preference`
+        : `preference ranks ${ranks.join(', ')}`,
+    );
+
+    // 2. Subject overlap scoring (30 points max by default)
+    const totalSubjectOverlap = legs.reduce(
+      (sum, { from, to }) =>
+        sum + from.subjects.filter((s) => to.subjects.includes(s)).length,
+      0,
+    );
+    const avgSubjectOverlap = totalSubjectOverlap / legs.length;
+    const subjects = Math.min(
+      Math.round(avgSubjectOverlap * weights.subjectPointsPerCommon),
+      weights.subjectCap,
+    );
+    const fewestCommon = Math.min(
+      ...legs.map(
+        ({ from, to }) =>
+          from.subjects.filter((s) => to.subjects.includes(s)).length,
+      ),
+    );
+    reasons.push(
+      `at least ${this.pluralize(fewestCommon, 'common subject')} on every move`,
+    );
+
+    // 3. Geographic feasibility (20 points max by default)
     // Check if transfers are within each teacher's flexibility
-    const aGeoScore = this.getGeoFeasibilityScore(reqA, reqB);
-    const bGeoScore = this.getGeoFeasibilityScore(reqB, reqC);
-    const cGeoScore = this.getGeoFeasibilityScore(reqC, reqA);
-    score += Math.round((aGeoScore + bGeoScore + cGeoScore) / 3);
-
-    // 4. Urgency matching (10 points max)
-    const allHigh =
-      reqA.urgency_level === 'high' &&
-      reqB.urgency_level === 'high' &&
-      reqC.urgency_level === 'high';
-    const allNormal =
-      reqA.urgency_level === 'normal' &&
-      reqB.urgency_level === 'normal' &&
-      reqC.urgency_level === 'normal';
-    if (allHigh || allNormal) {
-      score += 10;
-    } else {
-      score += 5; // Mixed urgency
-    }
+    const totalGeoScore = legs.reduce(
+      (sum, { from, to }) =>
+        sum + this.getGeoFeasibilityScore(from, to, config),
+      0,
+    );
+    const geographicCompatibility = Math.round(totalGeoScore / legs.length);
+    reasons.push(this.describeCycleGeography(legs));
+
+    // 4. Urgency matching (10 points max by default)
+    const allHigh = cycle.every((r) => r.urgency_level === 'high');
+    const allNormal = cycle.every((r) => r.urgency_level === 'normal');
+    const urgency =
+      allHigh || allNormal ? weights.urgencyUniform : weights.urgencyMixed;
+    reasons.push(
+      allHigh
+        ? 'all high urgency'
+        : allNormal
+          ? 'same urgency level'
+          : 'mixed urgency levels',
+    );
+
+    const total = mutualSchools + subjects + geographicCompatibility + urgency;
 
-    return Math.min(score, 100);
+    return {
+      total: Math.min(total, 100),
+      breakdown: {
+        mutualSchools,
+        geographicCompatibility,
+        subjects,
+        urgency,
+      },
+      reasons,
+    };
   }
 
   /**
@@ -373,7 +667,9 @@ export class MatchingAlgorithmService {
   private getGeoFeasibilityScore(
     from: TransferRequest,
     to: TransferRequest,
+    config: MatchingScoringConfig,
   ): number {
+    const points = config.geography;
     const fromDistrict = from.current_school?.division?.zone?.district?.id;
     const toDistrict = to.current_school?.division?.zone?.district?.id;
     const fromProvince =
@@ -387,13 +683,13 @@ export class MatchingAlgorithmService {
     const sameProvince = fromProvince === toProvince;
     const flexibility = from.geographic_flexibility;
 
-    if (sameDistrict) return 20;
+    if (sameDistrict) return points.sameDistrict;
     if (
       sameProvince &&
       (flexibility === 'province_wide' || flexibility === 'nationwide')
     )
-      return 15;
-    if (flexibility === 'nationwide') return 10;
+      return points.sameProvince;
+    if (flexibility === 'nationwide') return points.nationwide;
     return 0;
   }
 
@@ -403,13 +699,16 @@ export class MatchingAlgorithmService {
   private calculateCompatibility(
     request1: TransferRequest,
     request2: TransferRequest,
+    config: MatchingScoringConfig,
   ): CompatibilityScore {
+    const weights = config.twoWay;
     let mutualSchools = 0;
     let geographicCompatibility = 0;
     let subjects = 0;
     let urgency = 0;
+    const reasons: string[] = [];
 
-    // 1. Check for mutual school preferences (40 points max)
+    // 1. Check for mutual school preferences (40 points base by default)
     const r1SchoolIds = request1.preferred_schools.map(
       (ps) => ps.preferred_school_id,
     );
@@ -423,28 +722,39 @@ export class MatchingAlgorithmService {
 
     if (r1CurrentInR2Prefs && r2CurrentInR1Prefs) {
       // Perfect mutual match!
-      mutualSchools = 40;
+      mutualSchools = weights.mutualPreferenceBase;
 
       // Add bonus based on preference ranks
-      const r1Rank =
-        request2.preferred_schools.find(
-          (ps) => ps.preferred_school_id === request1.current_school_id,
-        )?.preference_rank || 5;
-      const r2Rank =
-        request1.preferred_schools.find(
-          (ps) => ps.preferred_school_id === request2.current_school_id,
-        )?.preference_rank || 5;
+      const r1Rank = this.getPreferenceRank(request2, request1, config);
+      const r2Rank = this.getPreferenceRank(request1, request2, config);
 
       // Higher rank (lower number) = more points
-      const rankBonus = (6 - r1Rank + (6 - r2Rank)) * 2; // Max 20 extra points
-      mutualSchools = Math.min(40 + rankBonus, 60); // Cap at 60
+      const maxRank = config.defaultPreferenceRank + 1;
+      const rankBonus =
+        (maxRank - r1Rank + (maxRank - r2Rank)) * weights.rankBonusPerStep; // Max 20 extra points by default
+      mutualSchools = Math.min(
+        weights.mutualPreferenceBase + rankBonus,
+        weights.mutualPreferenceCap,
+      ); // Cap at 60 by default
+
+      reasons.push(
+        r1Rank === r2Rank
+          ? `mutual rank ${r1Rank} preference`
+          : `mutual preference (ranks ${r2Rank} and ${r1Rank})`,
+      );
     }
 
-    // 2. Geographic compatibility (20 points max)
-    const geoScore = this.calculateGeographicCompatibility(request1, request2);
+    // 2. Geographic compatibility (20 points max by default)
+    const geoScore = this.calculateGeographicCompatibility(
+      request1,
+      request2,
+      config,
+    );
     geographicCompatibility = geoScore;
+    const geoReason = this.describeGeography(request1, request2);
+    if (geoReason) reasons.push(geoReason);
 
-    // 3. Subject overlap (15 points max) - MANDATORY: at least one common subject required
+    // 3. Subject overlap (15 points max by default) - MANDATORY: at least one common subject required
     if (request1.subjects.length > 0 && request2.subjects.length > 0) {
       const commonSubjects = request1.subjects.filter((s) =>
         request2.subjects.includes(s),
@@ -452,18 +762,25 @@ export class MatchingAlgorithmService {
       const subjectOverlapRatio =
         (commonSubjects.length /
           Math.max(request1.subjects.length, request2.subjects.length)) *
-        15;
+        weights.subjectOverlapMax;
       subjects = Math.round(subjectOverlapRatio);
+      reasons.push(this.pluralize(commonSubjects.length, 'common subject'));
     }
 
-    // 4. Urgency matching (5 points)
+    // 4. Urgency matching (5 points by default)
     if (request1.urgency_level === request2.urgency_level) {
-      urgency = 5;
+      urgency = weights.urgencySame;
+      reasons.push(
+        request1.urgency_level === 'high'
+          ? 'both high urgency'
+          : 'same urgency level',
+      );
     } else if (
       request1.urgency_level === 'high' ||
       request2.urgency_level === 'high'
     ) {
-      urgency = 2; // Partial credit
+      urgency = weights.urgencyPartial; // Partial credit
+      reasons.push('one high urgency request');
     }
 
     this.logger.debug(
@@ -480,16 +797,34 @@ export class MatchingAlgorithmService {
         subjects: Math.round(subjects),
         urgency: Math.round(urgency),
       },
+      reasons,
     };
   }
 
+  /**
+   * Rank `from` gave to the school of `to` (default rank if not listed)
+   */
+  private getPreferenceRank(
+    from: TransferRequest,
+    to: TransferRequest,
+    config: MatchingScoringConfig,
+  ): number {
+    return (
+      from.preferred_schools.find(
+        (ps) => ps.preferred_school_id === to.current_school_id,
+      )?.preference_rank || config.defaultPreferenceRank
+    );
+  }
+
   /**
    * Calculate geographic compatibility between two requests
    */
   private calculateGeographicCompatibility(
     request1: TransferRequest,
     request2: TransferRequest,
+    config: MatchingScoringConfig,
   ): number {
+    const points = config.geography;
     const r1DistrictId = request1.current_school?.division?.zone?.district?.id;
     const r1ProvinceId =
       request1.current_school?.division?.zone?.district?.province?.id;
@@ -508,7 +843,7 @@ export class MatchingAlgorithmService {
 
     // Best case: same district
     if (sameDistrict) {
-      return 20; // Full points
+      return points.sameDistrict; // Full points
     }
 
     // Same province
@@ -518,321 +853,138 @@ export class MatchingAlgorithmService {
         (r1Flexibility === 'province_wide' || r1Flexibility === 'nationwide') &&
         (r2Flexibility === 'province_wide' || r2Flexibility === 'nationwide')
       ) {
-        return 15;
+        return points.sameProvince;
       }
-      return 5; // Reduced points if flexibility doesn't match
+      return points.sameProvinceInflexible; // Reduced points if flexibility doesn't match
     }
 
     // Different provinces - both must allow nationwide
     if (r1Flexibility === 'nationwide' && r2Flexibility === 'nationwide') {
-      return 10;
+      return points.nationwide;
     }
 
     return 0; // No geographic compatibility
   }
 
   /**
-   * Find three-way matches (circular swaps: A→B→C→A)
+   * Describe where two schools are relative to each other
    */
-  private async findThreeWayMatches(
-    eligibleRequests: TransferRequest[],
-    processedRequestIds: Set<string>,
-  ): Promise<number> {
-    let matchesCreated = 0;
-
-    for (let i = 0; i < eligibleRequests.length; i++) {
-      if (processedRequestIds.has(eligibleRequests[i].id)) continue;
-
-      for (let j = i + 1; j < eligibleRequests.length; j++) {
-        if (processedRequestIds.has(eligibleRequests[j].id)) continue;
-
-        for (let k = j + 1; k < eligibleRequests.length; k++) {
-          if (processedRequestIds.has(eligibleRequests[k].id)) continue;
-
-          const reqA = eligibleRequests[i];
-          const reqB = eligibleRequests[j];
-          const reqC = eligibleRequests[k];
-
-          // Skip if any two requests belong to the same user
-          if (
-            reqA.user_id === reqB.user_id ||
-            reqB.user_id === reqC.user_id ||
-            reqA.user_id === reqC.user_id
-          )
-            continue;
-
-          // Check if they form a valid circular swap
-          // A wants B's school, B wants C's school, C wants A's school
-          const aWantsB = reqA.preferred_schools.some(
-            (ps) => ps.preferred_school_id === reqB.current_school_id,
-          );
-          const bWantsC = reqB.preferred_schools.some(
-            (ps) => ps.preferred_school_id === reqC.current_school_id,
-          );
-          const cWantsA = reqC.preferred_schools.some(
-            (ps) => ps.preferred_school_id === reqA.current_school_id,
-          );
-
-          if (aWantsB && bWantsC && cWantsA) {
-            // Validate same appointment category and medium
-            const sameCategory =
-              reqA.appointment_category_id === reqB.appointment_category_id &&
-              reqB.appointment_category_id === reqC.appointment_category_id;
-            const sameMedium =
-              reqA.medium_of_instruction === reqB.medium_of_instruction &&
-              reqB.medium_of_instruction === reqC.medium_of_instruction;
-
-            if (!sameCategory || !sameMedium) {
-              continue;
-            }
-
-            // MANDATORY: Check subject overlap for all three pairs
-            // Each pair must have at least one common subject
-            const abHasCommon = this.hasCommonSubjects(reqA, reqB);
-            const bcHasCommon = this.hasCommonSubjects(reqB, reqC);
-            const caHasCommon = this.hasCommonSubjects(reqC, reqA);
-
-            if (!abHasCommon || !bcHasCommon || !caHasCommon) {
-              this.logger.debug(
-                `Three-way match skipped due to no common subjects: A-B: ${abHasCommon}, B-C: ${bcHasCommon}, C-A: ${caHasCommon}`,
-              );
-              continue;
-            }
-
-            // Calculate average compatibility
-            const threeWayScore = this.calculateThreeWayCompatibility(
-              reqA,
-              reqB,
-              reqC,
-            );
-
-            this.logger.debug(
-              `Three-way compatibility for ${reqA.id}, ${reqB.id}, ${reqC.id}: ${threeWayScore}`,
-            );
-
-            if (threeWayScore >= 40) {
-              // Lower threshold for three-way
-              const matchId = await this.createThreeWayMatch(
-                [reqA, reqB, reqC],
-                threeWayScore,
-              );
-
-              if (matchId) {
-                matchesCreated++;
-                processedRequestIds.add(reqA.id);
-                processedRequestIds.add(reqB.id);
-                processedRequestIds.add(reqC.id);
-                this.logger.log(
-                  `Created three-way match: ${reqA.id} → ${reqB.id} → ${reqC.id} (score: ${threeWayScore})`,
-                );
-              }
-            }
-          }
-        }
-      }
+  private describeGeography(
+    request1: TransferRequest,
+    request2: TransferRequest,
+  ): string | null {
+    const district1 = request1.current_school?.division?.zone?.district;
+    const district2 = request2.current_school?.division?.zone?.district;
+
+    if (!district1?.id || !district2?.id) return null;
+    if (district1.id === district2.id) return 'same district';
+    if (district1.province?.id === district2.province?.id) {
+      return 'same province';
     }
-
-    return matchesCreated;
+    return 'different provinces';
   }
 
-  /**
-   * Create a three-way match in the database
-   */
-  private async createThreeWayMatch(
-    requests: [TransferRequest, TransferRequest, TransferRequest],
-    compatibilityScore: number,
-  ): Promise<string | null> {
-    try {
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7);
-
-      const { data: match, error: matchError } = await this.supabase
-        .from('transfer_matches')
-        .insert({
-          match_type: 'circular_three',
-          compatibility_score: compatibilityScore,
-          match_algorithm_version: 'v1.0',
-          status: 'pending',
-          expires_at: expiresAt.toISOString(),
-        })
-        .select()
-        .single();
-
-      if (matchError || !match) {
-        this.logger.error('Error creating three-way match:', matchError);
-        return null;
-      }
-
-      // Create participants
-      const participants = requests.map((req, index) => ({
-        match_id: match.id,
-        transfer_request_id: req.id,
-        user_id: req.user_id,
-        swap_position: index + 1,
-        response_status: 'pending',
-      }));
-
-      const { error: participantsError } = await this.supabase
-        .from('transfer_match_participants')
-        .insert(participants);
+  private describeCycleGeography(
+    legs: Array<{ from: TransferRequest; to: TransferRequest }>,
+  ): string {
+    const labels = legs.map(({ from, to }) => this.describeGeography(from, to));
 
-      if (participantsError) {
-        this.logger.error(
-          'Error creating three-way participants:',
-          participantsError,
-        );
-        await this.supabase
-          .from('transfer_matches')
-          .delete()
-          .eq('id', match.id);
-        return null;
-      }
+    if (labels.every((label) => label === 'same district')) {
+      return 'all moves within the same district';
+    }
+    if (labels.every((l) => l === 'same district' || l === 'same province')) {
+      return 'all moves within the same province';
+    }
 
-      // Get user details for notifications
-      const userIds = requests.map((req) => req.user_id);
-      const { data: users } = await this.supabase
-        .from('users')
-        .select('id, first_name, last_name')
-        .in('id', userIds);
-
-      if (users) {
-        const participantsForNotification = users.map((user: any) => ({
-          userId: user.id,
-          userName: `${user.first_name} ${user.last_name}`,
-        }));
-
-        await this.notificationsService.notifyMatchCreated(
-          match.id,
-          participantsForNotification,
-        );
-      }
+    const withinDistrict = labels.filter((l) => l === 'same district').length;
+    return `${withinDistrict} of ${legs.length} moves within the same district`;
+  }
 
-      return match.id;
-    } catch (error) {
-      this.logger.error('Exception in createThreeWayMatch:', error);
-      return null;
-    }
+  private pluralize(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
   }
 
   /**
-   * Create a two-way match in the database
+   * Create a match for a transfer cycle in the database
+   * Requests are stored in cycle order: each participant moves to the
+   * school of the participant with the next swap position.
    */
-  private async createTwoWayMatch(
-    request1: TransferRequest,
-    request2: TransferRequest,
+  private async createMatch(
+    requests: TransferRequest[],
     compatibility: CompatibilityScore,
-  ): Promise<string | null> {
-    try {
-      // Basic validation
-      if (
-        request1.appointment_category_id !== request2.appointment_category_id
-      ) {
-        this.logger.warn(
-          'Appointment categories do not match, skipping match creation',
-        );
-        return null;
-      }
-
-      if (request1.medium_of_instruction !== request2.medium_of_instruction) {
-        this.logger.warn(
-          'Medium of instruction does not match, skipping match creation',
-        );
-        return null;
-      }
-
-      // MANDATORY: At least one common subject required
-      if (!this.hasCommonSubjects(request1, request2)) {
-        this.logger.warn(
-          'No common subjects between requests, skipping match creation',
-        );
-        return null;
-      }
-
-      // Create the match
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7); // Matches expire in 7 days
-
-      const { data: match, error: matchError } = await this.supabase
-        .from('transfer_matches')
-        .insert({
-          match_type: 'two_way',
-          compatibility_score: compatibility.total,
-          match_algorithm_version: 'v1.0',
-          status: 'pending',
-          expires_at: expiresAt.toISOString(),
-        })
-        .select()
-        .single();
-
-      if (matchError || !match) {
-        this.logger.error('Error creating match:', matchError);
-        return null;
-      }
-
-      // Create participants
-      const participants = [
-        {
-          match_id: match.id,
-          transfer_request_id: request1.id,
-          user_id: request1.user_id,
-          swap_position: 1,
-          response_status: 'pending',
+    algorithmVersion: string,
+  ): Promise<string> {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + 7); // Matches expire in 7 days
+
+    // Match and participants are written in one transaction, which also
+    // re-checks that no request was booked since it was loaded
+    const { data: matchId, error } = await this.supabase.rpc(
+      'create_transfer_match',
+      {
+        p_match_type: this.getMatchType(requests),
+        p_compatibility_score: compatibility.total,
+        p_score_breakdown: {
+          ...compatibility.breakdown,
+          reasons: compatibility.reasons,
         },
-        {
-          match_id: match.id,
-          transfer_request_id: request2.id,
-          user_id: request2.user_id,
-          swap_position: 2,
-          response_status: 'pending',
-        },
-      ];
-
-      const { error: participantsError } = await this.supabase
-        .from('transfer_match_participants')
-        .insert(participants);
-
-      if (participantsError) {
-        this.logger.error('Error creating participants:', participantsError);
-        // Rollback: delete the match
-        await this.supabase
-          .from('transfer_matches')
-          .delete()
-          .eq('id', match.id);
-        return null;
-      }
+        p_algorithm_version: algorithmVersion,
+        p_expires_at: expiresAt.toISOString(),
+        p_participants: requests.map((req, index) => ({
+          transfer_request_id: req.id,
+          user_id: req.user_id,
+          swap_position: index + 1,
+        })),
+      },
+    );
 
-      // Get user details for notifications
-      const { data: users } = await this.supabase
-        .from('users')
-        .select('id, first_name, last_name')
-        .in('id', [request1.user_id, request2.user_id]);
-
-      if (users) {
-        const participantsForNotification = users.map((user: any) => ({
-          userId: user.id,
-          userName: `${user.first_name} ${user.last_name}`,
-        }));
-
-        await this.notificationsService.notifyMatchCreated(
-          match.id,
-          participantsForNotification,
-        );
-      }
+    if (error || !matchId) {
+      throw new Error(error?.message || 'Failed to create match');
+    }
 
-      return match.id;
-    } catch (error) {
-      this.logger.error('Exception in createTwoWayMatch:', error);
-      return null;
+    // Get user details for notifications
+    const userIds = requests.map((req) => req.user_id);
+    const { data: users } = await this.supabase
+      .from('users')
+      .select('id, first_name, last_name')
+      .in('id', userIds);
+
+    if (users) {
+      const participantsForNotification = users.map((user: any) => ({
+        userId: user.id,
+        userName: `${user.first_name} ${user.last_name}`,
+      }));
+
+      await this.notificationsService.notifyMatchCreated(
+        matchId,
+        participantsForNotification,
+      );
     }
+
+    return matchId;
   }
 
   /**
-   * Expire old pending matches
+   * Expire old pending matches and notify their participants
+   * Skipped (returns 0) while another instance is expiring matches.
    */
   async expireOldMatches(): Promise<number> {
+    const outcome = await this.jobLockService.runWithLock(
+      MATCH_EXPIRY_LOCK,
+      () => this.expirePendingMatches(),
+    );
+
+    if (!outcome.acquired) {
+      this.logger.log('Match expiry already running elsewhere, skipping');
+      return 0;
+    }
+    return outcome.result;
+  }
+
+  private async expirePendingMatches(): Promise<number> {
     const { data, error } = await this.supabase
       .from('transfer_matches')
-      .update({ status: 'expired' })
+      .update({ status: 'expired', status_changed_by: null })
       .eq('status', 'pending')
       .lt('expires_at', new Date().toISOString())
       .select();
@@ -845,8 +997,31 @@ export class MatchingAlgorithmService {
     const expiredCount = data?.length || 0;
     if (expiredCount > 0) {
       this.logger.log(`Expired ${expiredCount} old matches`);
+      await this.notifyExpiredMatches(data.map((match) => match.id));
     }
 
     return expiredCount;
   }
+
+  private async notifyExpiredMatches(matchIds: string[]): Promise<void> {
+    const { data: participants, error } = await this.supabase
+      .from('transfer_match_participants')
+      .select('match_id, user_id')
+      .in('match_id', matchIds);
+
+    if (error) {
+      // The matches are expired either way; only the notices are lost
+      this.logger.error('Error loading expired match participants:', error);
+      return;
+    }
+
+    for (const matchId of matchIds) {
+      await this.notificationsService.notifyMatchExpired(
+        matchId,
+        (participants || [])
+          .filter((p) => p.match_id === matchId)
+          .map((p) => ({ userId: p.user_id })),
+      );
+    }
+  }
 }
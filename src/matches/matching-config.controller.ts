@@ -0,0 +1,74 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { MatchingConfigService } from './matching-config.service';
+import { UpdateMatchingConfigDto } from './dto/matching-config.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../common/guards/admin.guard';
+import {
+  CurrentUser,
+  type JwtPayload,
+} from '../common/decorators/user.decorator';
+
+@Controller('api/matching-config')
+@UseGuards(JwtAuthGuard, AdminGuard)
+export class MatchingConfigController {
+  constructor(private matchingConfigService: MatchingConfigService) {}
+
+  /**
+   * Get the active scoring configuration
+   * GET /api/matching-config
+   */
+  @Get()
+  async getActiveConfig() {
+    return this.matchingConfigService.getActiveConfig();
+  }
+
+  /**
+   * Save a new configuration version (activated unless activate=false)
+   * POST /api/matching-config
+   */
+  @Post()
+  async createVersion(
+    @Body() body: UpdateMatchingConfigDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.matchingConfigService.createVersion(user.userId, body);
+  }
+
+  /**
+   * List stored configuration versions, newest first
+   * GET /api/matching-config/versions?limit=20&offset=0
+   */
+  @Get('versions')
+  async listVersions(
+    @Query('limit') limit: string,
+    @Query('offset') offset: string,
+  ) {
+    return this.matchingConfigService.listVersions(
+      parseInt(limit) || 20,
+      parseInt(offset) || 0,
+    );
+  }
+
+  @Get('versions/:version')
+  async getVersion(@Param('version', ParseIntPipe) version: number) {
+    return this.matchingConfigService.getVersion(version);
+  }
+
+  /**
+   * Switch to a stored version (also used to roll back a change)
+   * POST /api/matching-config/versions/:version/activate
+   */
+  @Post('versions/:version/activate')
+  async activateVersion(@Param('version', ParseIntPipe) version: number) {
+    return this.matchingConfigService.activateVersion(version);
+  }
+}
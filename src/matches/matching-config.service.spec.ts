@@ -0,0 +1,68 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { plainToInstance } from 'class-transformer';
+import {
+  DEFAULT_MATCHING_CONFIG,
+  MatchingConfigService,
+} from './matching-config.service';
+import { UpdateMatchingConfigDto } from './dto/matching-config.dto';
+
+describe('MatchingConfigService', () => {
+  let activeSettings: Record<string, any>;
+  let inserted: any;
+  let service: MatchingConfigService;
+
+  beforeEach(() => {
+    inserted = undefined;
+
+    const supabase = {
+      from: () => {
+        let activeOnly = false;
+        const query: any = {
+          select: () => query,
+          order: () => query,
+          limit: () => query,
+          eq: () => {
+            activeOnly = true;
+            return query;
+          },
+          maybeSingle: () =>
+            Promise.resolve({
+              data: activeOnly
+                ? { version: 3, settings: activeSettings }
+                : { version: 3 },
+              error: null,
+            }),
+          insert: (row: any) => {
+            inserted = row;
+            return query;
+          },
+          single: () => Promise.resolve({ data: inserted, error: null }),
+        };
+        return query;
+      },
+    };
+
+    service = new MatchingConfigService(supabase as unknown as SupabaseClient);
+  });
+
+  it('keeps custom values a partial update does not touch', async () => {
+    activeSettings = {
+      twoWay: { ...DEFAULT_MATCHING_CONFIG.twoWay, mutualPreferenceBase: 55 },
+      thresholds: { twoWay: 60, cycle: 45 },
+    };
+    const dto = plainToInstance(UpdateMatchingConfigDto, {
+      settings: { twoWay: { urgencySame: 7 } },
+      activate: false,
+    });
+
+    await service.createVersion('admin-1', dto);
+
+    expect(inserted.version).toBe(4);
+    expect(inserted.settings.twoWay).toEqual({
+      ...DEFAULT_MATCHING_CONFIG.twoWay,
+      mutualPreferenceBase: 55,
+      urgencySame: 7,
+    });
+    expect(inserted.settings.thresholds).toEqual({ twoWay: 60, cycle: 45 });
+  });
+});
@@ -0,0 +1,240 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { UpdateMatchingConfigDto } from './dto/matching-config.dto';
+
+export interface MatchingScoringConfig {
+  // Two-teacher swaps
+  twoWay: {
+    mutualPreferenceBase: number;
+    rankBonusPerStep: number;
+    mutualPreferenceCap: number;
+    subjectOverlapMax: number;
+    urgencySame: number;
+    urgencyPartial: number;
+  };
+  // Circular swaps of three or more teachers
+  cycle: {
+    rankPointsPerStep: number;
+    preferenceCap: number;
+    subjectPointsPerCommon: number;
+    subjectCap: number;
+    urgencyUniform: number;
+    urgencyMixed: number;
+  };
+  geography: {
+    sameDistrict: number;
+    sameProvince: number;
+    // Same province, but one teacher only accepts their own district
+    sameProvinceInflexible: number;
+    nationwide: number;
+  };
+  // Minimum total score for a candidate to become a match
+  thresholds: {
+    twoWay: number;
+    cycle: number;
+  };
+  // Rank assumed when a destination is missing from the preference list
+  defaultPreferenceRank: number;
+}
+
+export interface MatchingConfigVersion {
+  version: number;
+  settings: MatchingScoringConfig;
+}
+
+/**
+ * Scoring used before any configuration is stored (version 0)
+ */
+export const DEFAULT_MATCHING_CONFIG: MatchingScoringConfig = {
+  twoWay: {
+    mutualPreferenceBase: 40,
+    rankBonusPerStep: 2,
+    mutualPreferenceCap: 60,
+    subjectOverlapMax: 15,
+    urgencySame: 5,
+    urgencyPartial: 2,
+  },
+  cycle: {
+    rankPointsPerStep: 2,
+    preferenceCap: 40,
+    subjectPointsPerCommon: 10,
+    subjectCap: 30,
+    urgencyUniform: 10,
+    urgencyMixed: 5,
+  },
+  geography: {
+    sameDistrict: 20,
+    sameProvince: 15,
+    sameProvinceInflexible: 5,
+    nationwide: 10,
+  },
+  thresholds: {
+    twoWay: 50,
+    cycle: 40,
+  },
+  defaultPreferenceRank: 5,
+};
+
+/**
+ * Versioned scoring weights and thresholds for the matching algorithm
+ * Every change creates a new version; exactly one version is active.
+ */
+@Injectable()
+export class MatchingConfigService {
+  private readonly logger = new Logger(MatchingConfigService.name);
+
+  constructor(@Inject('SUPABASE_CLIENT') private supabase: SupabaseClient) {}
+
+  /**
+   * Get the active configuration, falling back to the built-in defaults
+   */
+  async getActiveConfig(): Promise<MatchingConfigVersion> {
+    const { data, error } = await this.supabase
+      .from('matching_configs')
+      .select('version, settings')
+      .eq('is_active', true)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(
+        'Error loading matching config, using defaults:',
+        error,
+      );
+    }
+
+    if (error || !data) {
+      return { version: 0, settings: DEFAULT_MATCHING_CONFIG };
+    }
+
+    return {
+      version: data.version,
+      settings: this.mergeSettings(DEFAULT_MATCHING_CONFIG, data.settings),
+    };
+  }
+
+  async listVersions(limit: number, offset: number) {
+    const { data, error, count } = await this.supabase
+      .from('matching_configs')
+      .select('*', { count: 'exact' })
+      .order('version', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) throw new Error(error.message);
+
+    return { data: data || [], count: count || 0 };
+  }
+
+  async getVersion(version: number) {
+    const { data, error } = await this.supabase
+      .from('matching_configs')
+      .select('*')
+      .eq('version', version)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) throw new NotFoundException('Matching config not found');
+
+    return data;
+  }
+
+  /**
+   * Create a new version from the active one with the given changes
+   */
+  async createVersion(userId: string, dto: UpdateMatchingConfigDto) {
+    const { settings: changes, notes, activate = true } = dto;
+    const current = await this.getActiveConfig();
+    const settings = this.mergeSettings(current.settings, changes || {});
+
+    const { data: latest } = await this.supabase
+      .from('matching_configs')
+      .select('version')
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data, error } = await this.supabase
+      .from('matching_configs')
+      .insert({
+        version: (latest?.version || 0) + 1,
+        settings,
+        notes,
+        is_active: false,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Unique violation: another admin saved a version at the same time
+      if (error.code === '23505') {
+        throw new BadRequestException(
+          'Matching config was changed by someone else. Please try again.',
+        );
+      }
+      throw new Error(error.message);
+    }
+
+    if (activate) {
+      return this.activateVersion(data.version);
+    }
+
+    return data;
+  }
+
+  /**
+   * Make a stored version the active one (also used to roll back)
+   * The switch is one transaction (activate_matching_config), so runs
+   * never catch a moment without an active version.
+   */
+  async activateVersion(version: number) {
+    const { data, error } = await this.supabase.rpc(
+      'activate_matching_config',
+      { p_version: version },
+    );
+
+    if (error) {
+      if (error.code === 'P0002') {
+        throw new NotFoundException('Matching config not found');
+      }
+      throw new Error(error.message);
+    }
+
+    this.logger.log(`Matching config version ${version} activated`);
+    return data;
+  }
+
+  /**
+   * Deep-merge stored or partial settings over a complete configuration
+   * Unset fields (`undefined`, as left by validated DTOs) keep the base value.
+   */
+  private mergeSettings(
+    base: MatchingScoringConfig,
+    changes: Record<string, any>,
+  ): MatchingScoringConfig {
+    const merged: Record<string, any> = { ...base };
+
+    for (const [key, value] of Object.entries(changes || {})) {
+      if (!(key in base) || value === undefined || value === null) continue;
+
+      merged[key] =
+        typeof value === 'object'
+          ? {
+              ...(base as Record<string, any>)[key],
+              ...Object.fromEntries(
+                Object.entries(value).filter(([, v]) => v !== undefined),
+              ),
+            }
+          : value;
+    }
+
+    return merged as MatchingScoringConfig;
+  }
+}
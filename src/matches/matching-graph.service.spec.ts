@@ -0,0 +1,133 @@
+import {
+  MatchingGraphService,
+  type TransferRequest,
+} from './matching-graph.service';
+
+function makeRequest(
+  id: string,
+  currentSchoolId: number,
+  preferredSchoolIds: number[],
+  overrides: Partial<TransferRequest> = {},
+): TransferRequest {
+  return {
+    id,
+    user_id: `user-${id}`,
+    current_school_id: currentSchoolId,
+    appointment_category_id: 1,
+    medium_of_instruction: 'sinhala',
+    geographic_flexibility: 'nationwide',
+    urgency_level: 'normal',
+    willing_temporary_transfer: false,
+    status: 'submitted',
+    preferred_schools: preferredSchoolIds.map((schoolId, index) => ({
+      preferred_school_id: schoolId,
+      preference_rank: index + 1,
+    })),
+    subjects: ['1'],
+    ...overrides,
+  };
+}
+
+const ids = (cycles: TransferRequest[][]) =>
+  cycles.map((cycle) => cycle.map((r) => r.id));
+
+describe('MatchingGraphService', () => {
+  let service: MatchingGraphService;
+
+  beforeEach(() => {
+    service = new MatchingGraphService();
+  });
+
+  it('finds a two-way swap', () => {
+    const requests = [makeRequest('a', 1, [2]), makeRequest('b', 2, [1])];
+
+    expect(ids(service.findCycles(requests, 4))).toEqual([['a', 'b']]);
+  });
+
+  it('finds a four-teacher rotation only when the limit allows it', () => {
+    const requests = [
+      makeRequest('a', 1, [2]),
+      makeRequest('b', 2, [3]),
+      makeRequest('c', 3, [4]),
+      makeRequest('d', 4, [1]),
+    ];
+
+    expect(ids(service.findCycles(requests, 4))).toEqual([
+      ['a', 'b', 'c', 'd'],
+    ]);
+    expect(service.findCycles(requests, 3)).toEqual([]);
+  });
+
+  it('reports each cycle once', () => {
+    const requests = [
+      makeRequest('a', 1, [2, 3]),
+      makeRequest('b', 2, [1, 3]),
+      makeRequest('c', 3, [1, 2]),
+    ];
+
+    expect(ids(service.findCycles(requests, 3))).toEqual([
+      ['a', 'b'],
+      ['a', 'b', 'c'],
+      ['a', 'c'],
+      ['a', 'c', 'b'],
+      ['b', 'c'],
+    ]);
+  });
+
+  it('skips incompatible requests and repeated teachers', () => {
+    const requests = [
+      makeRequest('a', 1, [2]),
+      makeRequest('b', 2, [1], { medium_of_instruction: 'tamil' }),
+      makeRequest('c', 2, [3]),
+      makeRequest('d', 3, [1], { user_id: 'user-a' }),
+    ];
+
+    expect(service.findCycles(requests, 4)).toEqual([]);
+  });
+
+  it('finds cycles through a specific request', () => {
+    const requests = [
+      makeRequest('a', 1, [2]),
+      makeRequest('b', 2, [1]),
+      makeRequest('c', 3, [4]),
+      makeRequest('d', 4, [3]),
+    ];
+
+    expect(ids(service.findCyclesThrough(requests, 'd', 4))).toEqual([
+      ['c', 'd'],
+    ]);
+  });
+
+  it('returns cycles through a request in the same form as findCycles', () => {
+    const requests = [
+      makeRequest('a', 1, [2, 3]),
+      makeRequest('b', 2, [1, 3]),
+      makeRequest('c', 3, [1, 2]),
+    ];
+
+    const through = ids(service.findCyclesThrough(requests, 'b', 3));
+    const expected = ids(service.findCycles(requests, 3)).filter((cycle) =>
+      cycle.includes('b'),
+    );
+
+    expect(through).toHaveLength(expected.length);
+    expect(through).toEqual(expect.arrayContaining(expected));
+  });
+
+  it('keeps cycles through a request within the length limit', () => {
+    const requests = [
+      makeRequest('a', 1, [2, 4]),
+      makeRequest('b', 2, [3]),
+      makeRequest('c', 3, [4]),
+      makeRequest('d', 4, [1]),
+    ];
+
+    expect(ids(service.findCyclesThrough(requests, 'a', 3))).toEqual([
+      ['a', 'd'],
+    ]);
+    expect(ids(service.findCyclesThrough(requests, 'a', 4))).toEqual([
+      ['a', 'b', 'c', 'd'],
+      ['a', 'd'],
+    ]);
+  });
+});
@@ -0,0 +1,275 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+export interface TransferRequest {
+  id: string;
+  user_id: string;
+  current_school_id: number;
+  appointment_category_id: number;
+  medium_of_instruction: string;
+  geographic_flexibility: 'district_only' | 'province_wide' | 'nationwide';
+  urgency_level: 'normal' | 'high';
+  willing_temporary_transfer: boolean;
+  status: string;
+  // Set when the request's previous accepted match was dissolved
+  rematch_priority?: boolean;
+  preferred_schools: Array<{
+    preferred_school_id: number;
+    preference_rank: number;
+  }>;
+  subjects: string[];
+  current_school?: {
+    division?: {
+      zone?: {
+        district?: { id: number; province?: { id: number } };
+      };
+    };
+  };
+}
+
+/**
+ * Match types keyed by the number of teachers in the cycle
+ */
+export const MATCH_TYPE_BY_CYCLE_LENGTH: Record<number, string> = {
+  2: 'two_way',
+  3: 'circular_three',
+  4: 'circular_four',
+  5: 'circular_five',
+  6: 'circular_six',
+};
+
+export const MIN_CYCLE_LENGTH = 2;
+export const MAX_SUPPORTED_CYCLE_LENGTH = 6;
+
+// Safety net against combinatorial blow-up on very dense graphs
+const MAX_CYCLES = 50000;
+
+/**
+ * Builds the directed "wants-school-of" graph between transfer requests
+ * and searches it for transfer cycles.
+ *
+ * An edge A → B means teacher A wants to move to B's current school and the
+ * two requests are compatible (same appointment category and medium, at least
+ * one common subject, different users). A cycle A → B → C → A is a valid
+ * circular swap: A takes B's post, B takes C's post and C takes A's post.
+ */
+@Injectable()
+export class MatchingGraphService {
+  private readonly logger = new Logger(MatchingGraphService.name);
+
+  /**
+   * Build adjacency lists (by index into `requests`) for the preference graph
+   */
+  buildGraph(requests: TransferRequest[]): number[][] {
+    const requestIndexesBySchool = new Map<number, number[]>();
+    requests.forEach((request, index) => {
+      const indexes = requestIndexesBySchool.get(request.current_school_id);
+      if (indexes) {
+        indexes.push(index);
+      } else {
+        requestIndexesBySchool.set(request.current_school_id, [index]);
+      }
+    });
+
+    return requests.map((from, fromIndex) => {
+      const targets = new Set<number>();
+
+      for (const preference of from.preferred_schools) {
+        const candidates =
+          requestIndexesBySchool.get(preference.preferred_school_id) || [];
+
+        for (const toIndex of candidates) {
+          if (toIndex === fromIndex) continue;
+          if (this.canMoveTo(from, requests[toIndex])) {
+            targets.add(toIndex);
+          }
+        }
+      }
+
+      return [...targets].sort((a, b) => a - b);
+    });
+  }
+
+  /**
+   * Find all simple cycles with length between 2 and `maxLength`
+   * Each cycle is returned once, starting from its lowest-indexed request,
+   * in the order the search discovers them.
+   */
+  findCycles(
+    requests: TransferRequest[],
+    maxLength: number,
+  ): TransferRequest[][] {
+    const graph = this.buildGraph(requests);
+    const cycles: number[][] = [];
+    const limit = Math.max(
+      MIN_CYCLE_LENGTH,
+      Math.min(maxLength, MAX_SUPPORTED_CYCLE_LENGTH),
+    );
+
+    for (let start = 0; start < requests.length; start++) {
+      if (cycles.length >= MAX_CYCLES) break;
+      this.searchFrom(start, graph, requests, limit, cycles);
+    }
+
+    if (cycles.length >= MAX_CYCLES) {
+      this.logger.warn(
+        `Cycle search stopped after ${MAX_CYCLES} cycles; results are partial`,
+      );
+    }
+
+    return cycles.map((cycle) => cycle.map((index) => requests[index]));
+  }
+
+  /**
+   * Find cycles that include a specific request
+   * Only searches from that request, and only through requests that can
+   * still get back to it within `maxLength`, so it stays cheap for
+   * incremental matching. Cycles are returned starting from their
+   * lowest-indexed request, like `findCycles`.
+   */
+  findCyclesThrough(
+    requests: TransferRequest[],
+    requestId: string,
+    maxLength: number,
+  ): TransferRequest[][] {
+    const start = requests.findIndex((request) => request.id === requestId);
+    if (start === -1) return [];
+
+    const graph = this.buildGraph(requests);
+    const cycles: number[][] = [];
+    const limit = Math.max(
+      MIN_CYCLE_LENGTH,
+      Math.min(maxLength, MAX_SUPPORTED_CYCLE_LENGTH),
+    );
+
+    this.searchFrom(
+      start,
+      graph,
+      requests,
+      limit,
+      cycles,
+      0,
+      this.getDistancesTo(start, graph),
+    );
+
+    return cycles.map((cycle) => {
+      const lowest = cycle.indexOf(Math.min(...cycle));
+      return [...cycle.slice(lowest), ...cycle.slice(0, lowest)].map(
+        (index) => requests[index],
+      );
+    });
+  }
+
+  /**
+   * Check if two requests have at least one common subject
+   * Returns true if they share at least one subject, false otherwise
+   */
+  hasCommonSubjects(
+    request1: TransferRequest,
+    request2: TransferRequest,
+  ): boolean {
+    // Both must have subjects defined
+    if (request1.subjects.length === 0 || request2.subjects.length === 0) {
+      return false;
+    }
+
+    // Check for at least one common subject
+    return request1.subjects.some((s) => request2.subjects.includes(s));
+  }
+
+  /**
+   * Check if the teacher behind `from` can take the post held by `to`
+   */
+  private canMoveTo(from: TransferRequest, to: TransferRequest): boolean {
+    if (from.user_id === to.user_id) return false;
+
+    const wantsSchool = from.preferred_schools.some(
+      (ps) => ps.preferred_school_id === to.current_school_id,
+    );
+    if (!wantsSchool) return false;
+
+    // Validate same appointment category and medium
+    if (from.appointment_category_id !== to.appointment_category_id) {
+      return false;
+    }
+    if (from.medium_of_instruction !== to.medium_of_instruction) return false;
+
+    // MANDATORY: at least one common subject required
+    return this.hasCommonSubjects(from, to);
+  }
+
+  /**
+   * Bounded depth-first search for cycles closing back on `start`
+   * By default only visits requests with a higher index than `start` so
+   * every cycle is found exactly once, and never puts the same teacher in a
+   * cycle twice. With `distancesToStart`, requests too far from `start` to
+   * close a cycle in time are not explored.
+   */
+  private searchFrom(
+    start: number,
+    graph: number[][],
+    requests: TransferRequest[],
+    maxLength: number,
+    cycles: number[][],
+    minIndex = start,
+    distancesToStart?: number[],
+  ): void {
+    const path = [start];
+    const usersInPath = new Set([requests[start].user_id]);
+
+    const visit = (node: number) => {
+      for (const next of graph[node]) {
+        if (cycles.length >= MAX_CYCLES) return;
+
+        if (next === start) {
+          if (path.length >= MIN_CYCLE_LENGTH) {
+            cycles.push([...path]);
+          }
+          continue;
+        }
+
+        if (next < minIndex || path.includes(next)) continue;
+        if (path.length >= maxLength) continue;
+        if (
+          distancesToStart &&
+          path.length + distancesToStart[next] > maxLength
+        ) {
+          continue;
+        }
+        if (usersInPath.has(requests[next].user_id)) continue;
+
+        path.push(next);
+        usersInPath.add(requests[next].user_id);
+        visit(next);
+        usersInPath.delete(requests[next].user_id);
+        path.pop();
+      }
+    };
+
+    visit(start);
+  }
+
+  /**
+   * Fewest moves from each request to `target`'s post (Infinity when there
+   * is no way), by breadth-first search over the reversed graph
+   */
+  private getDistancesTo(target: number, graph: number[][]): number[] {
+    const incoming: number[][] = graph.map(() => []);
+    graph.forEach((targets, from) => {
+      for (const to of targets) incoming[to].push(from);
+    });
+
+    const distances = graph.map(() => Infinity);
+    distances[target] = 0;
+    const queue = [target];
+    for (let i = 0; i < queue.length; i++) {
+      const node = queue[i];
+      for (const previous of incoming[node]) {
+        if (distances[previous] !== Infinity) continue;
+        distances[previous] = distances[node] + 1;
+        queue.push(previous);
+      }
+    }
+
+    return distances;
+  }
+}
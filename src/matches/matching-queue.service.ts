@@ -0,0 +1,146 @@
+import { Injectable, Inject, Logger, ConflictException } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { MatchingAlgorithmService } from './matching-algorithm.service';
+import {
+  JobLockService,
+  MATCHING_QUEUE_LOCK,
+} from '../common/services/job-lock.service';
+
+// Wait before retrying a pass that found the matching lock taken
+const LOCK_RETRY_DELAY_MS = 60 * 1000;
+const MAX_LOCK_RETRIES = 10;
+
+const QUEUE_BATCH_SIZE = 50;
+
+interface QueuedRequest {
+  request_id: string;
+  attempts: number;
+}
+
+/**
+ * Queues incremental matching passes for newly submitted requests
+ * The queue is a table (`matching_queue`), worked through by the matching
+ * scheduler, so submitting a request never waits for matching and queued
+ * passes survive restarts and serverless handlers. A request queued twice
+ * is only matched once.
+ */
+@Injectable()
+export class MatchingQueueService {
+  private readonly logger = new Logger(MatchingQueueService.name);
+
+  constructor(
+    @Inject('SUPABASE_CLIENT') private supabase: SupabaseClient,
+    private matchingAlgorithmService: MatchingAlgorithmService,
+    private jobLockService: JobLockService,
+  ) {}
+
+  /**
+   * Queue an incremental pass for a submitted request
+   */
+  async enqueue(requestId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('matching_queue')
+      .upsert(
+        { request_id: requestId },
+        { onConflict: 'request_id', ignoreDuplicates: true },
+      );
+
+    if (error) {
+      // The next full run still picks the request up
+      this.logger.error(
+        `Error queueing incremental matching for request ${requestId}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Run the passes that are due, returns how many were run
+   * Skipped (returns 0) while another instance is working the queue.
+   */
+  async processQueue(): Promise<number> {
+    const outcome = await this.jobLockService.runWithLock(
+      MATCHING_QUEUE_LOCK,
+      async (signal) => {
+        const { data, error } = await this.supabase
+          .from('matching_queue')
+          .select('request_id, attempts')
+          .lte('next_attempt_at', new Date().toISOString())
+          .order('queued_at', { ascending: true })
+          .limit(QUEUE_BATCH_SIZE);
+
+        if (error) throw new Error(error.message);
+
+        const queued = (data || []) as QueuedRequest[];
+        for (const entry of queued) {
+          signal.throwIfAborted();
+          await this.runPass(entry);
+        }
+        return queued.length;
+      },
+    );
+
+    if (!outcome.acquired) {
+      this.logger.log('Matching queue already running elsewhere, skipping');
+      return 0;
+    }
+    return outcome.result;
+  }
+
+  private async runPass(entry: QueuedRequest): Promise<void> {
+    const requestId = entry.request_id;
+
+    try {
+      const result =
+        await this.matchingAlgorithmService.runIncrementalMatching(requestId);
+
+      this.logger.log(
+        `Incremental matching for request ${requestId}: ${result.matchesCreated} matches created`,
+      );
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        await this.retryLater(entry);
+        return;
+      }
+      this.logger.error(
+        `Error in incremental matching for request ${requestId}:`,
+        error,
+      );
+    }
+
+    await this.remove(requestId);
+  }
+
+  private async retryLater(entry: QueuedRequest): Promise<void> {
+    const attempts = entry.attempts + 1;
+    if (attempts > MAX_LOCK_RETRIES) {
+      // The next full run still picks the request up
+      this.logger.warn(
+        `Giving up incremental matching for request ${entry.request_id}, matching lock stayed busy`,
+      );
+      await this.remove(entry.request_id);
+      return;
+    }
+
+    const { error } = await this.supabase
+      .from('matching_queue')
+      .update({
+        attempts,
+        next_attempt_at: new Date(
+          Date.now() + LOCK_RETRY_DELAY_MS,
+        ).toISOString(),
+      })
+      .eq('request_id', entry.request_id);
+
+    if (error) throw new Error(error.message);
+  }
+
+  private async remove(requestId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('matching_queue')
+      .delete()
+      .eq('request_id', requestId);
+
+    if (error) throw new Error(error.message);
+  }
+}
@@ -0,0 +1,38 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { MatchingRunsService } from './matching-runs.service';
+import { JobLockService } from '../common/services/job-lock.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../common/guards/admin.guard';
+
+@Controller('api/matching-runs')
+@UseGuards(JwtAuthGuard, AdminGuard)
+export class MatchingRunsController {
+  constructor(
+    private matchingRunsService: MatchingRunsService,
+    private jobLockService: JobLockService,
+  ) {}
+
+  @Get()
+  async listRuns(@Query() query: any) {
+    const { limit = 50, offset = 0, ...filters } = query;
+    return this.matchingRunsService.listRuns(
+      filters,
+      parseInt(String(limit)),
+      parseInt(String(offset)),
+    );
+  }
+
+  /**
+   * Who holds the matching and expiry job locks
+   * GET /api/matching-runs/locks
+   */
+  @Get('locks')
+  async listLocks() {
+    return this.jobLockService.listLocks();
+  }
+
+  @Get(':runId')
+  async getRun(@Param('runId') runId: string) {
+    return this.matchingRunsService.getRun(runId);
+  }
+}
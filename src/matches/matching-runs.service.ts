@@ -0,0 +1,212 @@
+import { Injectable, Inject, Logger, NotFoundException } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { MatchCandidate } from './matching-algorithm.service';
+import {
+  MATCH_TYPE_BY_CYCLE_LENGTH,
+  type TransferRequest,
+} from './matching-graph.service';
+
+export type MatchingRunTrigger = 'scheduled' | 'admin' | 'incremental';
+
+export interface MatchingRunError {
+  message: string;
+  requestIds?: string[];
+}
+
+export interface StartMatchingRunDto {
+  trigger: MatchingRunTrigger;
+  triggeredBy?: string;
+  algorithmVersion: string;
+  configVersion: number;
+  solver: string;
+}
+
+export interface FinishMatchingRunDto {
+  eligibleRequestCount: number;
+  candidatesFound: number;
+  requestsProcessed: number;
+  createdMatches: MatchCandidate[];
+  errors: MatchingRunError[];
+}
+
+// Compatibility score buckets used for the per-run distribution
+const SCORE_BUCKETS = [
+  { label: '0-39', min: 0, max: 39 },
+  { label: '40-49', min: 40, max: 49 },
+  { label: '50-59', min: 50, max: 59 },
+  { label: '60-69', min: 60, max: 69 },
+  { label: '70-79', min: 70, max: 79 },
+  { label: '80-89', min: 80, max: 89 },
+  { label: '90-100', min: 90, max: 100 },
+];
+
+/**
+ * Persists a history of matching runs with per-run statistics
+ * Recording failures are logged but never fail the run itself.
+ */
+@Injectable()
+export class MatchingRunsService {
+  private readonly logger = new Logger(MatchingRunsService.name);
+
+  constructor(@Inject('SUPABASE_CLIENT') private supabase: SupabaseClient) {}
+
+  /**
+   * Record the start of a run, returns the run id
+   */
+  async startRun(dto: StartMatchingRunDto): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('matching_runs')
+      .insert({
+        trigger_source: dto.trigger,
+        triggered_by: dto.triggeredBy,
+        algorithm_version: dto.algorithmVersion,
+        config_version: dto.configVersion,
+        solver: dto.solver,
+        status: 'running',
+        started_at: new Date().toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      this.logger.error('Error recording matching run start:', error);
+      return null;
+    }
+
+    return data.id;
+  }
+
+  /**
+   * Record the outcome and statistics of a completed run
+   */
+  async finishRun(
+    runId: string | null,
+    dto: FinishMatchingRunDto,
+  ): Promise<void> {
+    if (!runId) return;
+
+    const { error } = await this.supabase
+      .from('matching_runs')
+      .update({
+        status: 'completed',
+        finished_at: new Date().toISOString(),
+        eligible_request_count: dto.eligibleRequestCount,
+        candidates_found: dto.candidatesFound,
+        matches_created: dto.createdMatches.length,
+        requests_processed: dto.requestsProcessed,
+        matches_by_type: this.countByType(dto.createdMatches),
+        score_distribution: this.getScoreDistribution(dto.createdMatches),
+        errors: dto.errors,
+      })
+      .eq('id', runId);
+
+    if (error) {
+      this.logger.error('Error recording matching run result:', error);
+    }
+  }
+
+  /**
+   * Record a run that stopped with an unexpected error
+   */
+  async failRun(runId: string | null, failure: unknown): Promise<void> {
+    if (!runId) return;
+
+    const message = failure instanceof Error ? failure.message : 'Unknown';
+    const { error } = await this.supabase
+      .from('matching_runs')
+      .update({
+        status: 'failed',
+        finished_at: new Date().toISOString(),
+        errors: [{ message }],
+      })
+      .eq('id', runId);
+
+    if (error) {
+      this.logger.error('Error recording matching run failure:', error);
+    }
+  }
+
+  async listRuns(filters: any, limit: number, offset: number) {
+    let query = this.supabase
+      .from('matching_runs')
+      .select('*', { count: 'exact' });
+
+    if (filters.status) {
+      const statuses = String(filters.status).split(',');
+      query = query.in('status', statuses);
+    }
+
+    if (filters.trigger) {
+      const triggers = String(filters.trigger).split(',');
+      query = query.in('trigger_source', triggers);
+    }
+
+    if (filters.dateFrom) {
+      query = query.gte('started_at', String(filters.dateFrom));
+    }
+
+    if (filters.dateTo) {
+      query = query.lte('started_at', String(filters.dateTo));
+    }
+
+    query = query
+      .order('started_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    const { data, error, count } = await query;
+
+    if (error) throw new Error(error.message);
+
+    return { data: data || [], count: count || 0 };
+  }
+
+  async getRun(runId: string) {
+    const { data, error } = await this.supabase
+      .from('matching_runs')
+      .select('*, triggered_by_user:users(id, first_name, last_name, email)')
+      .eq('id', runId)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException('Matching run not found');
+    }
+
+    return data;
+  }
+
+  private countByType(matches: MatchCandidate[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const match of matches) {
+      const type = this.getMatchType(match.requests);
+      counts[type] = (counts[type] || 0) + 1;
+    }
+    return counts;
+  }
+
+  private getScoreDistribution(matches: MatchCandidate[]) {
+    const scores = matches.map((m) => m.compatibility.total);
+    const buckets = Object.fromEntries(
+      SCORE_BUCKETS.map((bucket) => [
+        bucket.label,
+        scores.filter((s) => s >= bucket.min && s <= bucket.max).length,
+      ]),
+    );
+
+    if (scores.length === 0) {
+      return { min: null, max: null, average: null, buckets };
+    }
+
+    return {
+      min: Math.min(...scores),
+      max: Math.max(...scores),
+      average:
+        Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 10) /
+        10,
+      buckets,
+    };
+  }
+
+  private getMatchType(requests: TransferRequest[]): string {
+    return MATCH_TYPE_BY_CYCLE_LENGTH[requests.length];
+  }
+}
@@ -1,12 +1,18 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, ConflictException } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { MatchingAlgorithmService } from './matching-algorithm.service';
+import { MatchRemindersService } from './match-reminders.service';
+import { MatchingQueueService } from './matching-queue.service';
 
 @Injectable()
 export class MatchingSchedulerService {
   private readonly logger = new Logger(MatchingSchedulerService.name);
 
-  constructor(private matchingAlgorithmService: MatchingAlgorithmService) {}
+  constructor(
+    private matchingAlgorithmService: MatchingAlgorithmService,
+    private matchRemindersService: MatchRemindersService,
+    private matchingQueueService: MatchingQueueService,
+  ) {}
 
   /**
    * Run matching algorithm daily at 2 AM - 0 2 * * *
@@ -21,13 +27,25 @@ export class MatchingSchedulerService {
 
     try {
       // Run the matching algorithm
-      const result = await this.matchingAlgorithmService.runMatchingAlgorithm();
+      const result = await this.matchingAlgorithmService.runMatchingAlgorithm({
+        trigger: 'scheduled',
+      });
 
       this.logger.log(
         `Scheduled matching completed: ${result.matchesCreated} matches created, ${result.requestsProcessed} requests processed`,
       );
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        this.logger.warn(
+          'Scheduled matching skipped, another matching run holds the lock',
+        );
+      } else {
+        this.logger.error('Error in scheduled matching:', error);
+      }
+    }
 
-      // Expire old matches
+    // Expire old matches, however the run ended
+    try {
       const expiredCount =
         await this.matchingAlgorithmService.expireOldMatches();
 
@@ -35,7 +53,7 @@ export class MatchingSchedulerService {
         this.logger.log(`Expired ${expiredCount} old matches`);
       }
     } catch (error) {
-      this.logger.error('Error in scheduled matching:', error);
+      this.logger.error('Error expiring old matches:', error);
     }
   }
 
@@ -58,4 +76,38 @@ export class MatchingSchedulerService {
       this.logger.error('Error in hourly match expiration:', error);
     }
   }
+
+  /**
+   * Remind participants about matches close to expiry every hour
+   */
+  @Cron(CronExpression.EVERY_HOUR, {
+    name: 'match-expiry-reminders',
+    timeZone: 'Asia/Colombo',
+  })
+  async sendMatchExpiryRemindersHourly() {
+    try {
+      await this.matchRemindersService.sendExpiryReminders();
+    } catch (error) {
+      this.logger.error('Error sending match expiry reminders:', error);
+    }
+  }
+
+  /**
+   * Run queued incremental matching passes every minute
+   */
+  @Cron(CronExpression.EVERY_MINUTE, {
+    name: 'incremental-matching',
+    timeZone: 'Asia/Colombo',
+  })
+  async processMatchingQueue() {
+    try {
+      const processed = await this.matchingQueueService.processQueue();
+
+      if (processed > 0) {
+        this.logger.log(`Ran ${processed} incremental matching passes`);
+      }
+    } catch (error) {
+      this.logger.error('Error running incremental matching:', error);
+    }
+  }
 }
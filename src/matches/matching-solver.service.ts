@@ -0,0 +1,226 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { MatchCandidate } from './matching-algorithm.service';
+
+export type MatchingSolver = 'greedy' | 'optimal';
+
+export const MATCHING_SOLVERS: MatchingSolver[] = ['greedy', 'optimal'];
+
+// Search budget per group of overlapping cycles before falling back to greedy
+const MAX_SEARCH_NODES = 200000;
+
+// Extra weight for each request waiting to be re-matched after its accepted
+// match was dissolved; a full score, so the optimum includes it if it can
+const REMATCH_PRIORITY_BONUS = 100;
+
+/**
+ * Chooses which candidate cycles become matches.
+ * Candidates overlap (a request can sit in many cycles), so only a set of
+ * cycles with no request in common can be created in one run.
+ */
+@Injectable()
+export class MatchingSolverService {
+  private readonly logger = new Logger(MatchingSolverService.name);
+
+  select(
+    candidates: MatchCandidate[],
+    solver: MatchingSolver,
+  ): MatchCandidate[] {
+    return solver === 'optimal'
+      ? this.selectOptimal(candidates)
+      : this.selectGreedy(candidates);
+  }
+
+  /**
+   * First-fit selection in candidate order
+   */
+  selectGreedy(candidates: MatchCandidate[]): MatchCandidate[] {
+    const usedRequestIds = new Set<string>();
+    const selected: MatchCandidate[] = [];
+
+    for (const candidate of candidates) {
+      if (candidate.requests.some((r) => usedRequestIds.has(r.id))) continue;
+
+      selected.push(candidate);
+      candidate.requests.forEach((r) => usedRequestIds.add(r.id));
+    }
+
+    return selected;
+  }
+
+  /**
+   * Select the set of non-overlapping cycles with the highest total
+   * compatibility across every matched teacher (score × cycle length),
+   * with a bonus for each request that has rematch priority.
+   * Solved exactly per group of overlapping cycles with branch and bound;
+   * groups too large to search within budget keep the best set found.
+   */
+  selectOptimal(candidates: MatchCandidate[]): MatchCandidate[] {
+    const selected: MatchCandidate[] = [];
+
+    for (const component of this.splitIntoComponents(candidates)) {
+      selected.push(...this.solveComponent(component));
+    }
+
+    // Keep the usual ordering: longer cycles first, then by score
+    return selected.sort(
+      (a, b) =>
+        b.requests.length - a.requests.length ||
+        b.compatibility.total - a.compatibility.total,
+    );
+  }
+
+  /**
+   * Total compatibility a set of matches gives its teachers
+   */
+  getTotalWeight(candidates: MatchCandidate[]): number {
+    return candidates.reduce((sum, c) => sum + this.getWeight(c), 0);
+  }
+
+  private getWeight(candidate: MatchCandidate): number {
+    return candidate.compatibility.total * candidate.requests.length;
+  }
+
+  private getSearchWeight(candidate: MatchCandidate): number {
+    const priorityRequests = candidate.requests.filter(
+      (r) => r.rematch_priority,
+    ).length;
+    return (
+      this.getWeight(candidate) + priorityRequests * REMATCH_PRIORITY_BONUS
+    );
+  }
+
+  /**
+   * Group candidates that share requests, directly or transitively
+   */
+  private splitIntoComponents(
+    candidates: MatchCandidate[],
+  ): MatchCandidate[][] {
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+      let root = id;
+      while (parent.get(root) !== root) root = parent.get(root)!;
+      parent.set(id, root);
+      return root;
+    };
+
+    for (const candidate of candidates) {
+      for (const request of candidate.requests) {
+        if (!parent.has(request.id)) parent.set(request.id, request.id);
+      }
+      const first = find(candidate.requests[0].id);
+      for (const request of candidate.requests.slice(1)) {
+        parent.set(find(request.id), first);
+      }
+    }
+
+    const components = new Map<string, MatchCandidate[]>();
+    for (const candidate of candidates) {
+      const root = find(candidate.requests[0].id);
+      const component = components.get(root);
+      if (component) {
+        component.push(candidate);
+      } else {
+        components.set(root, [candidate]);
+      }
+    }
+
+    return [...components.values()];
+  }
+
+  /**
+   * Exact maximum-weight cycle packing for one component
+   */
+  private solveComponent(candidates: MatchCandidate[]): MatchCandidate[] {
+    if (candidates.length === 1) return candidates;
+
+    // Best score a request can contribute bounds what is still reachable
+    const bestScoreByRequest = new Map<string, number>();
+    const candidatesByRequest = new Map<string, MatchCandidate[]>();
+    for (const candidate of candidates) {
+      for (const request of candidate.requests) {
+        const bonus = request.rematch_priority ? REMATCH_PRIORITY_BONUS : 0;
+        bestScoreByRequest.set(
+          request.id,
+          Math.max(
+            bestScoreByRequest.get(request.id) || 0,
+            candidate.compatibility.total + bonus,
+          ),
+        );
+        const list = candidatesByRequest.get(request.id) || [];
+        list.push(candidate);
+        candidatesByRequest.set(request.id, list);
+      }
+    }
+    const requestIds = [...bestScoreByRequest.keys()];
+    for (const list of candidatesByRequest.values()) {
+      list.sort((a, b) => this.getSearchWeight(b) - this.getSearchWeight(a));
+    }
+
+    // Start from the greedy-by-weight packing so pruning kicks in early
+    let best = this.selectGreedy(
+      [...candidates].sort(
+        (a, b) => this.getSearchWeight(b) - this.getSearchWeight(a),
+      ),
+    );
+    let bestWeight = best.reduce((sum, c) => sum + this.getSearchWeight(c), 0);
+
+    const used = new Set<string>();
+    const chosen: MatchCandidate[] = [];
+    let nodes = 0;
+
+    const search = (position: number, weight: number, bound: number) => {
+      if (nodes++ > MAX_SEARCH_NODES) return;
+
+      if (weight > bestWeight) {
+        best = [...chosen];
+        bestWeight = weight;
+      }
+      if (weight + bound <= bestWeight) return;
+
+      // Next request that is still free decides the branch
+      while (position < requestIds.length && used.has(requestIds[position])) {
+        position++;
+      }
+      if (position >= requestIds.length) return;
+
+      const requestId = requestIds[position];
+
+      for (const candidate of candidatesByRequest.get(requestId)!) {
+        if (candidate.requests.some((r) => used.has(r.id))) continue;
+
+        const removedBound = candidate.requests.reduce(
+          (sum, r) => sum + bestScoreByRequest.get(r.id)!,
+          0,
+        );
+        candidate.requests.forEach((r) => used.add(r.id));
+        chosen.push(candidate);
+        search(
+          position + 1,
+          weight + this.getSearchWeight(candidate),
+          bound - removedBound,
+        );
+        chosen.pop();
+        candidate.requests.forEach((r) => used.delete(r.id));
+      }
+
+      // Leave this request unmatched
+      used.add(requestId);
+      search(position + 1, weight, bound - bestScoreByRequest.get(requestId)!);
+      used.delete(requestId);
+    };
+
+    const initialBound = requestIds.reduce(
+      (sum, id) => sum + bestScoreByRequest.get(id)!,
+      0,
+    );
+    search(0, 0, initialBound);
+
+    if (nodes > MAX_SEARCH_NODES) {
+      this.logger.warn(
+        `Optimal search budget exhausted for ${candidates.length} overlapping cycles; using best assignment found`,
+      );
+    }
+
+    return best;
+  }
+}
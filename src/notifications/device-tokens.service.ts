@@ -0,0 +1,78 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { RegisterDeviceTokenDto } from './dto/device-token.dto';
+
+/**
+ * Registry of the push tokens of each user's devices
+ */
+@Injectable()
+export class DeviceTokensService {
+  constructor(@Inject('SUPABASE_CLIENT') private supabase: SupabaseClient) {}
+
+  /**
+   * Register a device for push, moving the token over if the device was
+   * signed in as someone else
+   */
+  async registerToken(userId: string, dto: RegisterDeviceTokenDto) {
+    const now = new Date().toISOString();
+
+    const { data, error } = await this.supabase
+      .from('device_tokens')
+      .upsert(
+        {
+          user_id: userId,
+          token: dto.token,
+          platform: dto.platform,
+          is_active: true,
+          last_used_at: now,
+          updated_at: now,
+        },
+        { onConflict: 'token' },
+      )
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    return data;
+  }
+
+  /**
+   * Remove a device, e.g. on sign out
+   */
+  async unregisterToken(userId: string, token: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('device_tokens')
+      .delete()
+      .eq('user_id', userId)
+      .eq('token', token);
+
+    if (error) throw new Error(error.message);
+  }
+
+  async getActiveTokens(userId: string): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('device_tokens')
+      .select('token')
+      .eq('user_id', userId)
+      .eq('is_active', true);
+
+    if (error) throw new Error(error.message);
+
+    return (data || []).map((row) => row.token);
+  }
+
+  /**
+   * Stop sending to tokens the push provider reported as unregistered
+   */
+  async deactivateTokens(tokens: string[]): Promise<void> {
+    if (tokens.length === 0) return;
+
+    const { error } = await this.supabase
+      .from('device_tokens')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .in('token', tokens);
+
+    if (error) throw new Error(error.message);
+  }
+}
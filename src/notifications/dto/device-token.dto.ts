@@ -0,0 +1,18 @@
+import { IsString, IsNotEmpty, IsEnum, MaxLength } from 'class-validator';
+
+export class RegisterDeviceTokenDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  token: string;
+
+  @IsEnum(['ios', 'android'])
+  platform: 'ios' | 'android';
+}
+
+export class UnregisterDeviceTokenDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  token: string;
+}
@@ -0,0 +1,18 @@
+export const EMAIL_PROVIDER = 'EMAIL_PROVIDER';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Sends a single email
+ * Throws when the message could not be handed over, so the delivery is
+ * retried.
+ */
+export interface EmailProvider {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
@@ -0,0 +1,39 @@
+import { renderEmail, resolveEmailLocale } from './email-templates';
+
+describe('email templates', () => {
+  it('prefers the chosen language over the medium of instruction', () => {
+    expect(resolveEmailLocale('en', 'tamil')).toBe('en');
+    expect(resolveEmailLocale(null, 'tamil')).toBe('ta');
+    expect(resolveEmailLocale(null, 'sinhala')).toBe('si');
+    expect(resolveEmailLocale(undefined, undefined)).toBe('en');
+  });
+
+  it('renders a notification in the requested language', () => {
+    const sinhala = renderEmail('request_expiry_warning', 'si', {
+      daysLeft: 14,
+    });
+    const english = renderEmail(
+      'request_expiry_warning',
+      'en',
+      { daysLeft: 1 },
+      'Nimal',
+    );
+
+    expect(sinhala?.text).toContain('දින 14 කින්');
+    expect(english?.subject).toBe('Transfer Request Expiring Soon');
+    expect(english?.text).toContain('Hello Nimal,');
+    expect(english?.text).toContain('expires in 1 day.');
+  });
+
+  it('escapes values in the html version', () => {
+    const email = renderEmail('match_accepted', 'en', {
+      userName: '<b>Kamal</b>',
+    });
+
+    expect(email?.html).toContain('&lt;b&gt;Kamal&lt;/b&gt;');
+  });
+
+  it('does not email types without a template', () => {
+    expect(renderEmail('transfer_confirmed', 'en', {})).toBeNull();
+  });
+});
@@ -0,0 +1,211 @@
+export type EmailLocale = 'si' | 'ta' | 'en';
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+type TemplateData = Record<string, any>;
+
+type LocalizedTemplate = Record<
+  EmailLocale,
+  (data: TemplateData) => { subject: string; body: string }
+>;
+
+const EMAIL_LOCALES: EmailLocale[] = ['si', 'ta', 'en'];
+
+const LOCALE_BY_MEDIUM: Record<string, EmailLocale> = {
+  sinhala: 'si',
+  tamil: 'ta',
+  english: 'en',
+};
+
+const GREETINGS: Record<EmailLocale, (name: string) => string> = {
+  si: (name) => `ආයුබෝවන් ${name},`,
+  ta: (name) => `வணக்கம் ${name},`,
+  en: (name) => `Hello ${name},`,
+};
+
+const GREETINGS_WITHOUT_NAME: Record<EmailLocale, string> = {
+  si: 'ආයුබෝවන්,',
+  ta: 'வணக்கம்,',
+  en: 'Hello,',
+};
+
+const SIGN_OFFS: Record<EmailLocale, string> = {
+  si: 'වැඩි විස්තර සඳහා යෙදුම විවෘත කරන්න.',
+  ta: 'மேலும் விவரங்களுக்கு செயலியைத் திறக்கவும்.',
+  en: 'Open the app for more details.',
+};
+
+/**
+ * Email versions of the notifications worth an email, keyed by
+ * notification type. Values come from the notification's `data`.
+ */
+const TEMPLATES: Record<string, LocalizedTemplate> = {
+  match_created: {
+    si: (d) => ({
+      subject: 'නව ස්ථාන මාරු ගැළපීමක් හමු විය',
+      body: `${d.participantNames} සමඟ ගැළපෙන ස්ථාන මාරු ගැළපීමක් හමු වී ඇත. කරුණාකර ගැළපීම සමාලෝචනය කර ප්‍රතිචාර දක්වන්න.`,
+    }),
+    ta: (d) => ({
+      subject: 'புதிய இடமாற்றப் பொருத்தம் கண்டறியப்பட்டது',
+      body: `${d.participantNames} உடன் பொருந்தும் இடமாற்றப் பொருத்தம் கண்டறியப்பட்டுள்ளது. பொருத்தத்தைப் பார்வையிட்டு பதிலளிக்கவும்.`,
+    }),
+    en: (d) => ({
+      subject: 'New Transfer Match Found!',
+      body: `A compatible transfer match has been found with ${d.participantNames}. Review and respond to this match.`,
+    }),
+  },
+  match_accepted: {
+    si: (d) => ({
+      subject: 'ගැළපීමට ප්‍රතිචාරයක් ලැබිණි',
+      body: `${d.userName} ස්ථාන මාරු ගැළපීම පිළිගෙන ඇත.`,
+    }),
+    ta: (d) => ({
+      subject: 'பொருத்தத்திற்கு பதில் கிடைத்தது',
+      body: `${d.userName} இடமாற்றப் பொருத்தத்தை ஏற்றுக்கொண்டுள்ளார்.`,
+    }),
+    en: (d) => ({
+      subject: 'Match Participant Responded',
+      body: `${d.userName} has accepted the transfer match.`,
+    }),
+  },
+  match_rejected: {
+    si: (d) => ({
+      subject: 'ගැළපීම ප්‍රතික්ෂේප විය',
+      body: `${d.userName} ස්ථාන මාරු ගැළපීම ප්‍රතික්ෂේප කර ඇත. ගැළපීම වසා දමා ඇත.`,
+    }),
+    ta: (d) => ({
+      subject: 'பொருத்தம் நிராகரிக்கப்பட்டது',
+      body: `${d.userName} இடமாற்றப் பொருத்தத்தை நிராகரித்துள்ளார். பொருத்தம் மூடப்பட்டுள்ளது.`,
+    }),
+    en: (d) => ({
+      subject: 'Match Rejected',
+      body: `${d.userName} has rejected the transfer match. The match has been closed.`,
+    }),
+  },
+  match_expiry_reminder: {
+    si: (d) => ({
+      subject: d.isFinal
+        ? 'අවසාන සිහිකැඳවීම: ගැළපීම ඉක්මනින් කල් ඉකුත් වේ'
+        : 'ගැළපීම ඉක්මනින් කල් ඉකුත් වේ',
+      body: d.awaitingOthers
+        ? `සියලු සහභාගිවන්නන් තවමත් ප්‍රතිචාර දක්වා නැත. සියලු දෙනා පිළි නොගතහොත් ගැළපීම පැය ${d.hoursLeft} කින් කල් ඉකුත් වේ.`
+        : `ඔබගේ ස්ථාන මාරු ගැළපීම පැය ${d.hoursLeft} කින් කල් ඉකුත් වේ. ඊට පෙර එය පිළිගන්න හෝ ප්‍රතික්ෂේප කරන්න.`,
+    }),
+    ta: (d) => ({
+      subject: d.isFinal
+        ? 'இறுதி நினைவூட்டல்: பொருத்தம் விரைவில் காலாவதியாகும்'
+        : 'பொருத்தம் விரைவில் காலாவதியாகும்',
+      body: d.awaitingOthers
+        ? `அனைத்து பங்கேற்பாளர்களும் இன்னும் பதிலளிக்கவில்லை. அனைவரும் ஏற்காவிட்டால் பொருத்தம் ${d.hoursLeft} மணி நேரத்தில் காலாவதியாகும்.`
+        : `உங்கள் இடமாற்றப் பொருத்தம் ${d.hoursLeft} மணி நேரத்தில் காலாவதியாகும். அதற்கு முன் ஏற்கவும் அல்லது நிராகரிக்கவும்.`,
+    }),
+    en: (d) => ({
+      subject: d.isFinal
+        ? 'Final Reminder: Match Expiring Soon'
+        : 'Transfer Match Expiring Soon',
+      body: d.awaitingOthers
+        ? `Not everyone has responded to your transfer match yet. It expires in ${d.hoursLeft} ${d.hoursLeft === 1 ? 'hour' : 'hours'} unless all participants accept.`
+        : `Your transfer match expires in ${d.hoursLeft} ${d.hoursLeft === 1 ? 'hour' : 'hours'}. Accept or reject it before then or the match will be closed.`,
+    }),
+  },
+  message_received: {
+    si: (d) => ({
+      subject: 'නව පණිවිඩ',
+      body: `${d.senderName} ගෙන් ඔබට නව පණිවිඩ ${d.messageCount} ක් ලැබී ඇත.`,
+    }),
+    ta: (d) => ({
+      subject: 'புதிய செய்திகள்',
+      body: `${d.senderName} இடமிருந்து உங்களுக்கு ${d.messageCount} புதிய செய்திகள் வந்துள்ளன.`,
+    }),
+    en: (d) => ({
+      subject: 'New Messages',
+      body: `You have ${d.messageCount} new ${d.messageCount === 1 ? 'message' : 'messages'} from ${d.senderName}.`,
+    }),
+  },
+  request_expiry_warning: {
+    si: (d) => ({
+      subject: 'ස්ථාන මාරු ඉල්ලීම ඉක්මනින් කල් ඉකුත් වේ',
+      body: `ඔබගේ ස්ථාන මාරු ඉල්ලීම දින ${d.daysLeft} කින් කල් ඉකුත් වේ. ගැළපීම් දිගටම ලබා ගැනීමට එය අලුත් කරන්න.`,
+    }),
+    ta: (d) => ({
+      subject: 'இடமாற்றக் கோரிக்கை விரைவில் காலாவதியாகும்',
+      body: `உங்கள் இடமாற்றக் கோரிக்கை ${d.daysLeft} நாட்களில் காலாவதியாகும். பொருத்தங்களைத் தொடர்ந்து பெற அதைப் புதுப்பிக்கவும்.`,
+    }),
+    en: (d) => ({
+      subject: 'Transfer Request Expiring Soon',
+      body: `Your transfer request expires in ${d.daysLeft} ${d.daysLeft === 1 ? 'day' : 'days'}. Renew it to stay in the matching pool.`,
+    }),
+  },
+  request_expired: {
+    si: () => ({
+      subject: 'ස්ථාන මාරු ඉල්ලීම කල් ඉකුත් විය',
+      body: 'ඔබගේ ස්ථාන මාරු ඉල්ලීම කල් ඉකුත් වී ඇති අතර තවදුරටත් ගැළපීම් සොයනු නොලැබේ. නැවත ගැළපීම් ලබා ගැනීමට එය අලුත් කරන්න.',
+    }),
+    ta: () => ({
+      subject: 'இடமாற்றக் கோரிக்கை காலாவதியானது',
+      body: 'உங்கள் இடமாற்றக் கோரிக்கை காலாவதியாகிவிட்டது, இனி அதற்குப் பொருத்தங்கள் தேடப்படாது. மீண்டும் பொருத்தங்களைப் பெற அதைப் புதுப்பிக்கவும்.',
+    }),
+    en: () => ({
+      subject: 'Transfer Request Expired',
+      body: 'Your transfer request has expired and is no longer being matched. Renew it to return to the matching pool.',
+    }),
+  },
+};
+
+/**
+ * Language for a user's emails: their chosen language, otherwise their
+ * medium of instruction, otherwise English
+ */
+export function resolveEmailLocale(
+  preferredLanguage?: string | null,
+  medium?: string | null,
+): EmailLocale {
+  const preferred = EMAIL_LOCALES.find((l) => l === preferredLanguage);
+  return preferred || LOCALE_BY_MEDIUM[medium || ''] || 'en';
+}
+
+export function hasEmailTemplate(type: string): boolean {
+  return type in TEMPLATES;
+}
+
+/**
+ * Render a notification as an email, or null for types that are not
+ * emailed
+ */
+export function renderEmail(
+  type: string,
+  locale: EmailLocale,
+  data: TemplateData,
+  recipientName?: string | null,
+): RenderedEmail | null {
+  const template = TEMPLATES[type];
+  if (!template) return null;
+
+  const { subject, body } = template[locale](data);
+  const paragraphs = [
+    recipientName
+      ? GREETINGS[locale](recipientName)
+      : GREETINGS_WITHOUT_NAME[locale],
+    body,
+    SIGN_OFFS[locale],
+  ];
+
+  return {
+    subject,
+    text: paragraphs.join('\n\n'),
+    html: paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`).join('\n'),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,85 @@
+import { Logger } from '@nestjs/common';
+import type { PushMessage, PushProvider, PushResult } from './push-provider';
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+// Expo accepts at most 100 messages per request
+const MAX_BATCH_SIZE = 100;
+
+// Give up on a request after this long; the delivery is retried later
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+
+interface ExpoPushTicket {
+  status: 'ok' | 'error';
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+}
+
+/**
+ * Push delivery through the Expo push service, which forwards to APNs and
+ * FCM for the tokens the mobile app registers
+ */
+export class ExpoPushProvider implements PushProvider {
+  readonly name = 'expo';
+  private readonly logger = new Logger(ExpoPushProvider.name);
+
+  constructor(private accessToken?: string) {}
+
+  async send(messages: PushMessage[]): Promise<PushResult[]> {
+    const results: PushResult[] = [];
+
+    for (let i = 0; i < messages.length; i += MAX_BATCH_SIZE) {
+      results.push(
+        ...(await this.sendBatch(messages.slice(i, i + MAX_BATCH_SIZE))),
+      );
+    }
+
+    return results;
+  }
+
+  private async sendBatch(messages: PushMessage[]): Promise<PushResult[]> {
+    const response = await fetch(EXPO_PUSH_URL, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        ...(this.accessToken
+          ? { Authorization: `Bearer ${this.accessToken}` }
+          : {}),
+      },
+      body: JSON.stringify(
+        messages.map((message) => ({
+          to: message.token,
+          title: message.title,
+          body: message.body,
+          data: message.data,
+          sound: 'default',
+        })),
+      ),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Expo push request failed with ${response.status}`);
+    }
+
+    const { data: tickets } = (await response.json()) as {
+      data: ExpoPushTicket[];
+    };
+
+    return messages.map((message, index) => {
+      const ticket = tickets[index];
+      if (ticket?.status === 'ok') return { token: message.token, ok: true };
+
+      const error = ticket?.details?.error || ticket?.message || 'Unknown';
+      this.logger.warn(`Expo push rejected a message: ${error}`);
+      return {
+        token: message.token,
+        ok: false,
+        error,
+        invalidToken: error === 'DeviceNotRegistered',
+      };
+    });
+  }
+}
@@ -0,0 +1,21 @@
+import type { EmailMessage, EmailProvider } from './email-provider';
+
+/**
+ * Records emails instead of sending them, for local development and tests
+ */
+export class FakeEmailProvider implements EmailProvider {
+  readonly name = 'fake';
+  readonly sent: EmailMessage[] = [];
+  // Number of upcoming sends that fail as if the server was down
+  failures = 0;
+
+  send(message: EmailMessage): Promise<void> {
+    if (this.failures > 0) {
+      this.failures--;
+      return Promise.reject(new Error('Fake email provider unavailable'));
+    }
+
+    this.sent.push(message);
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,35 @@
+import type { PushMessage, PushProvider, PushResult } from './push-provider';
+
+/**
+ * Records messages instead of sending them, for local development and tests
+ */
+export class FakePushProvider implements PushProvider {
+  readonly name = 'fake';
+  readonly sent: PushMessage[] = [];
+  // Tokens to report as no longer registered
+  readonly invalidTokens = new Set<string>();
+  // Number of upcoming calls that fail as if the provider was down
+  failures = 0;
+
+  send(messages: PushMessage[]): Promise<PushResult[]> {
+    if (this.failures > 0) {
+      this.failures--;
+      return Promise.reject(new Error('Fake push provider unavailable'));
+    }
+
+    return Promise.resolve(
+      messages.map((message) => {
+        if (this.invalidTokens.has(message.token)) {
+          return {
+            token: message.token,
+            ok: false,
+            error: 'DeviceNotRegistered',
+            invalidToken: true,
+          };
+        }
+        this.sent.push(message);
+        return { token: message.token, ok: true };
+      }),
+    );
+  }
+}
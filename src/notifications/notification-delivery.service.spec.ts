@@ -0,0 +1,129 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  NotificationDeliveryService,
+  type DeliverableNotification,
+} from './notification-delivery.service';
+import { DeviceTokensService } from './device-tokens.service';
+import { FakePushProvider } from './fake-push.provider';
+import { FakeEmailProvider } from './fake-email.provider';
+import { JobLockService } from '../common/services/job-lock.service';
+import { UserPreferencesService } from '../common/services/user-preferences.service';
+
+const notification: DeliverableNotification = {
+  id: 'notification-1',
+  user_id: 'user-1',
+  type: 'match_created',
+  title: 'New Transfer Match Found!',
+  body: 'A compatible transfer match has been found.',
+  related_entity_type: 'match',
+  related_entity_id: 'match-1',
+  sent_via: ['push'],
+};
+
+describe('NotificationDeliveryService', () => {
+  let pushProvider: FakePushProvider;
+  let tokens: string[];
+  let deactivated: string[];
+  let claimable: boolean;
+  let service: NotificationDeliveryService;
+
+  beforeEach(() => {
+    pushProvider = new FakePushProvider();
+    tokens = ['phone', 'tablet'];
+    deactivated = [];
+    claimable = true;
+
+    // Just enough of the deliveries table for dispatch and claiming
+    const query: any = {
+      insert: (rows: any[]) => {
+        query.rows = rows.map((row, index) => ({
+          ...row,
+          id: `delivery-${index + 1}`,
+          attempts: 0,
+        }));
+        return query;
+      },
+      update: () => {
+        query.rows = claimable ? [{ id: 'delivery-1' }] : [];
+        return query;
+      },
+      eq: () => query,
+      select: () => query,
+      then: (resolve: (value: unknown) => void) =>
+        resolve({ data: query.rows, error: null }),
+    };
+    const supabase = { from: () => query };
+
+    const deviceTokensService = {
+      getActiveTokens: () => Promise.resolve(tokens),
+      deactivateTokens: (invalid: string[]) => {
+        deactivated.push(...invalid);
+        return Promise.resolve();
+      },
+    } as unknown as DeviceTokensService;
+
+    service = new NotificationDeliveryService(
+      supabase as unknown as SupabaseClient,
+      pushProvider,
+      new FakeEmailProvider(),
+      deviceTokensService,
+      {} as JobLockService,
+      {
+        getDeliveryDecision: () => Promise.resolve({ action: 'send' }),
+      } as unknown as UserPreferencesService,
+    );
+  });
+
+  it('sends to every active device of the user', async () => {
+    await expect(service.sendPush(notification)).resolves.toEqual({
+      status: 'sent',
+    });
+    expect(pushProvider.sent.map((m) => m.token)).toEqual(['phone', 'tablet']);
+    expect(pushProvider.sent[0].data).toMatchObject({
+      notificationId: 'notification-1',
+      relatedEntityId: 'match-1',
+    });
+  });
+
+  it('deactivates unregistered devices and still counts the others', async () => {
+    pushProvider.invalidTokens.add('tablet');
+
+    await expect(service.sendPush(notification)).resolves.toEqual({
+      status: 'sent',
+    });
+    expect(deactivated).toEqual(['tablet']);
+  });
+
+  it('skips users without a registered device', async () => {
+    tokens = [];
+
+    await expect(service.sendPush(notification)).resolves.toMatchObject({
+      status: 'skipped',
+    });
+    expect(pushProvider.sent).toEqual([]);
+  });
+
+  it('surfaces provider outages so the delivery is retried', async () => {
+    pushProvider.failures = 1;
+
+    await expect(service.sendPush(notification)).rejects.toThrow(
+      'Fake push provider unavailable',
+    );
+  });
+
+  it('sends a new notification once claimed', async () => {
+    await service.dispatch([notification]);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(pushProvider.sent).toHaveLength(2);
+  });
+
+  it('leaves deliveries another attempt has claimed', async () => {
+    claimable = false;
+
+    await service.dispatch([notification]);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(pushProvider.sent).toEqual([]);
+  });
+});
@@ -0,0 +1,352 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DeviceTokensService } from './device-tokens.service';
+import { PUSH_PROVIDER, type PushProvider } from './push-provider';
+import { EMAIL_PROVIDER, type EmailProvider } from './email-provider';
+import {
+  hasEmailTemplate,
+  renderEmail,
+  resolveEmailLocale,
+} from './email-templates';
+import {
+  JobLockService,
+  NOTIFICATION_DELIVERY_LOCK,
+} from '../common/services/job-lock.service';
+import { UserPreferencesService } from '../common/services/user-preferences.service';
+
+const MAX_ATTEMPTS = 5;
+
+// Retries back off from this delay: 5, 10, 20 and 40 minutes
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+
+// How long the first attempt owns a new delivery before the retry job may
+// pick it up
+const FIRST_ATTEMPT_GRACE_MS = 2 * 60 * 1000;
+
+// How long an attempt owns a delivery it has claimed; well above the
+// providers' request timeouts
+const ATTEMPT_LEASE_MS = 10 * 60 * 1000;
+
+const RETRY_BATCH_SIZE = 100;
+
+export type DeliveryChannel = 'push' | 'email';
+
+export interface DeliverableNotification {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  body: string;
+  related_entity_type?: string | null;
+  related_entity_id?: string | null;
+  sent_via?: string[] | null;
+  data?: Record<string, any> | null;
+}
+
+export interface DeliveryOutcome {
+  status: 'sent' | 'skipped' | 'retry' | 'deferred';
+  error?: string;
+  // When a deferred delivery may go out
+  until?: Date;
+}
+
+interface PendingDelivery {
+  id: string;
+  channel: DeliveryChannel;
+  attempts: number;
+  next_attempt_at: string;
+  notification: DeliverableNotification;
+}
+
+/**
+ * Delivers stored notifications as push messages and emails
+ * Each notification gets a `notification_deliveries` row per channel it is
+ * sent via (only types with an email template are emailed). The first
+ * attempt runs right after the notification is created; failed attempts are
+ * retried with backoff by a scheduled job. Each attempt claims its row
+ * first, so a slow first attempt and the retry job never both send it.
+ * Every attempt checks the user's preferences first: opted-out channels are
+ * skipped and push waits out quiet hours.
+ */
+@Injectable()
+export class NotificationDeliveryService {
+  private readonly logger = new Logger(NotificationDeliveryService.name);
+
+  constructor(
+    @Inject('SUPABASE_CLIENT') private supabase: SupabaseClient,
+    @Inject(PUSH_PROVIDER) private pushProvider: PushProvider,
+    @Inject(EMAIL_PROVIDER) private emailProvider: EmailProvider,
+    private deviceTokensService: DeviceTokensService,
+    private jobLockService: JobLockService,
+    private userPreferencesService: UserPreferencesService,
+  ) {}
+
+  /**
+   * Queue delivery of new notifications and make the first attempt
+   */
+  async dispatch(notifications: DeliverableNotification[]): Promise<void> {
+    const nextAttemptAt = new Date(
+      Date.now() + FIRST_ATTEMPT_GRACE_MS,
+    ).toISOString();
+    const rows = notifications.flatMap((notification) =>
+      this.getChannels(notification).map((channel) => ({
+        notification_id: notification.id,
+        channel,
+        next_attempt_at: nextAttemptAt,
+      })),
+    );
+    if (rows.length === 0) return;
+
+    const { data, error } = await this.supabase
+      .from('notification_deliveries')
+      .insert(rows)
+      .select('id, notification_id, channel, attempts, next_attempt_at');
+
+    if (error) throw new Error(error.message);
+
+    const notificationsById = new Map(notifications.map((n) => [n.id, n]));
+    const deliveries = (data || []).map((delivery) => ({
+      id: delivery.id,
+      channel: delivery.channel,
+      attempts: delivery.attempts,
+      next_attempt_at: delivery.next_attempt_at,
+      notification: notificationsById.get(delivery.notification_id)!,
+    }));
+
+    // Sent in the background so creating a notification never waits on the
+    // push provider; the retry job picks up anything this misses
+    void this.attemptAll(deliveries);
+  }
+
+  /**
+   * Retry deliveries that are due, returns how many were attempted
+   * Skipped (returns 0) while another instance is retrying.
+   */
+  async retryDueDeliveries(): Promise<number> {
+    const outcome = await this.jobLockService.runWithLock(
+      NOTIFICATION_DELIVERY_LOCK,
+      async (signal) => {
+        const { data, error } = await this.supabase
+          .from('notification_deliveries')
+          .select(
+            'id, channel, attempts, next_attempt_at, notification:notifications(*)',
+          )
+          .eq('status', 'pending')
+          .lte('next_attempt_at', new Date().toISOString())
+          .order('next_attempt_at', { ascending: true })
+          .limit(RETRY_BATCH_SIZE);
+
+        if (error) throw new Error(error.message);
+
+        const deliveries = (data || []) as unknown as PendingDelivery[];
+        await this.attemptAll(deliveries, signal);
+        return deliveries.length;
+      },
+    );
+
+    if (!outcome.acquired) {
+      this.logger.log('Notification delivery already running elsewhere');
+      return 0;
+    }
+    return outcome.result;
+  }
+
+  /**
+   * Send a notification to every active device of its user
+   */
+  async sendPush(
+    notification: DeliverableNotification,
+  ): Promise<DeliveryOutcome> {
+    const tokens = await this.deviceTokensService.getActiveTokens(
+      notification.user_id,
+    );
+    if (tokens.length === 0) {
+      return { status: 'skipped', error: 'No registered devices' };
+    }
+
+    const results = await this.pushProvider.send(
+      tokens.map((token) => ({
+        token,
+        title: notification.title,
+        body: notification.body,
+        data: {
+          notificationId: notification.id,
+          type: notification.type,
+          relatedEntityType: notification.related_entity_type,
+          relatedEntityId: notification.related_entity_id,
+        },
+      })),
+    );
+
+    const invalidTokens = results
+      .filter((r) => r.invalidToken)
+      .map((r) => r.token);
+    await this.deviceTokensService.deactivateTokens(invalidTokens);
+
+    if (results.some((r) => r.ok)) return { status: 'sent' };
+    if (invalidTokens.length === results.length) {
+      return { status: 'skipped', error: 'No registered devices' };
+    }
+    return { status: 'retry', error: results.find((r) => !r.ok)?.error };
+  }
+
+  /**
+   * Email a notification in the user's language
+   */
+  async sendEmail(
+    notification: DeliverableNotification,
+  ): Promise<DeliveryOutcome> {
+    const { data: user, error } = await this.supabase
+      .from('users')
+      .select(
+        'email, first_name, medium_of_instruction, preferences:user_preferences(preferred_language)',
+      )
+      .eq('id', notification.user_id)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!user?.email) return { status: 'skipped', error: 'No email address' };
+
+    const preferences: any = Array.isArray(user.preferences)
+      ? user.preferences[0]
+      : user.preferences;
+    const email = renderEmail(
+      notification.type,
+      resolveEmailLocale(
+        preferences?.preferred_language,
+        user.medium_of_instruction,
+      ),
+      notification.data || {},
+      user.first_name,
+    );
+    if (!email) return { status: 'skipped', error: 'No email template' };
+
+    await this.emailProvider.send({ to: user.email, ...email });
+    return { status: 'sent' };
+  }
+
+  private getChannels(
+    notification: DeliverableNotification,
+  ): DeliveryChannel[] {
+    const sentVia = notification.sent_via || [];
+    const channels: DeliveryChannel[] = [];
+    if (sentVia.includes('push')) channels.push('push');
+    if (sentVia.includes('email') && hasEmailTemplate(notification.type)) {
+      channels.push('email');
+    }
+    return channels;
+  }
+
+  private async attemptAll(
+    deliveries: PendingDelivery[],
+    signal?: AbortSignal,
+  ): Promise<void> {
+    for (const delivery of deliveries) {
+      // Stop before sending anything twice with another instance
+      signal?.throwIfAborted();
+      try {
+        await this.attempt(delivery);
+      } catch (error) {
+        this.logger.error(`Error delivering ${delivery.id}:`, error);
+      }
+    }
+  }
+
+  private async attempt(delivery: PendingDelivery): Promise<void> {
+    if (!(await this.claim(delivery))) return;
+
+    let outcome: DeliveryOutcome;
+    try {
+      outcome = await this.send(delivery);
+    } catch (error) {
+      outcome = {
+        status: 'retry',
+        error: error instanceof Error ? error.message : 'Unknown',
+      };
+    }
+
+    // Waiting out quiet hours does not use up an attempt
+    const attempts =
+      outcome.status === 'deferred' ? delivery.attempts : delivery.attempts + 1;
+
+    const now = new Date();
+    const { error } = await this.supabase
+      .from('notification_deliveries')
+      .update({
+        ...this.getNextState(outcome, attempts, now),
+        attempts,
+        last_error: outcome.error || null,
+        updated_at: now.toISOString(),
+      })
+      .eq('id', delivery.id);
+
+    if (error) throw new Error(error.message);
+  }
+
+  /**
+   * Take a delivery for one attempt by pushing its next attempt past the
+   * lease, only if it is still as it was read. False when another attempt
+   * got there first.
+   */
+  private async claim(delivery: PendingDelivery): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('notification_deliveries')
+      .update({
+        next_attempt_at: new Date(Date.now() + ATTEMPT_LEASE_MS).toISOString(),
+      })
+      .eq('id', delivery.id)
+      .eq('status', 'pending')
+      .eq('next_attempt_at', delivery.next_attempt_at)
+      .select('id');
+
+    if (error) throw new Error(error.message);
+    return (data || []).length > 0;
+  }
+
+  private async send(delivery: PendingDelivery): Promise<DeliveryOutcome> {
+    const { notification, channel } = delivery;
+    const decision = await this.userPreferencesService.getDeliveryDecision(
+      notification.user_id,
+      notification.type,
+      channel,
+    );
+    if (decision.action === 'skip') {
+      return { status: 'skipped', error: decision.reason };
+    }
+    if (decision.action === 'defer') {
+      return { status: 'deferred', until: decision.until };
+    }
+
+    return channel === 'email'
+      ? this.sendEmail(notification)
+      : this.sendPush(notification);
+  }
+
+  private getNextState(outcome: DeliveryOutcome, attempts: number, now: Date) {
+    if (outcome.status === 'sent') {
+      return {
+        status: 'sent',
+        sent_at: now.toISOString(),
+        next_attempt_at: null,
+      };
+    }
+    if (outcome.status === 'skipped') {
+      return { status: 'skipped', next_attempt_at: null };
+    }
+    if (outcome.status === 'deferred') {
+      return {
+        status: 'pending',
+        next_attempt_at: outcome.until!.toISOString(),
+      };
+    }
+    if (attempts >= MAX_ATTEMPTS) {
+      return { status: 'failed', next_attempt_at: null };
+    }
+    return {
+      status: 'pending',
+      next_attempt_at: new Date(
+        now.getTime() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1),
+      ).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,16 @@
+export const NOTIFICATION_TYPES = [
+  'match_created',
+  'match_accepted',
+  'match_rejected',
+  'match_expired',
+  'request_status_changed',
+  'request_expiry_warning',
+  'request_expired',
+  'transfer_confirmed',
+  'match_completed',
+  'match_dissolved',
+  'match_expiry_reminder',
+  'message_received',
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
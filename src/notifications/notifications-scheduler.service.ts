@@ -0,0 +1,32 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { NotificationDeliveryService } from './notification-delivery.service';
+
+@Injectable()
+export class NotificationsSchedulerService {
+  private readonly logger = new Logger(NotificationsSchedulerService.name);
+
+  constructor(
+    private notificationDeliveryService: NotificationDeliveryService,
+  ) {}
+
+  /**
+   * Retry failed notification deliveries every 5 minutes
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES, {
+    name: 'retry-notification-deliveries',
+    timeZone: 'Asia/Colombo',
+  })
+  async retryDeliveries() {
+    try {
+      const attempted =
+        await this.notificationDeliveryService.retryDueDeliveries();
+
+      if (attempted > 0) {
+        this.logger.log(`Retried ${attempted} notification deliveries`);
+      }
+    } catch (error) {
+      this.logger.error('Error retrying notification deliveries:', error);
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { NotificationsService } from '../common/services/notifications.service';
+import { DeviceTokensService } from './device-tokens.service';
+import {
+  RegisterDeviceTokenDto,
+  UnregisterDeviceTokenDto,
+} from './dto/device-token.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  CurrentUser,
+  type JwtPayload,
+} from '../common/decorators/user.decorator';
+
+@Controller('api/notifications')
+@UseGuards(JwtAuthGuard)
+export class NotificationsController {
+  constructor(
+    private notificationsService: NotificationsService,
+    private deviceTokensService: DeviceTokensService,
+  ) {}
+
+  /**
+   * Get the current user's notifications (paginated)
+   * GET /api/notifications?limit=50&offset=0&type=match_created,match_expired&isRead=false
+   */
+  @Get()
+  async listNotifications(
+    @Query('limit') limit: string,
+    @Query('offset') offset: string,
+    @Query('type') type: string,
+    @Query('isRead') isRead: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.notificationsService.listNotifications(
+      user.userId,
+      { type, isRead },
+      parseInt(limit) || 50,
+      parseInt(offset) || 0,
+    );
+  }
+
+  /**
+   * Get unread notification count
+   * GET /api/notifications/unread-count
+   */
+  @Get('unread-count')
+  async getUnreadCount(@CurrentUser() user: JwtPayload) {
+    const count = await this.notificationsService.getUnreadCount(user.userId);
+    return { count };
+  }
+
+  /**
+   * Mark all notifications as read
+   * PATCH /api/notifications/read-all
+   */
+  @Patch('read-all')
+  async markAllAsRead(@CurrentUser() user: JwtPayload) {
+    await this.notificationsService.markAllAsRead(user.userId);
+    return { success: true };
+  }
+
+  /**
+   * Register this device for push notifications
+   * POST /api/notifications/devices
+   */
+  @Post('devices')
+  async registerDevice(
+    @Body() body: RegisterDeviceTokenDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.deviceTokensService.registerToken(user.userId, body);
+  }
+
+  /**
+   * Stop push notifications to this device, e.g. on sign out
+   * DELETE /api/notifications/devices
+   */
+  @Delete('devices')
+  async unregisterDevice(
+    @Body() body: UnregisterDeviceTokenDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    await this.deviceTokensService.unregisterToken(user.userId, body.token);
+    return { success: true };
+  }
+
+  /**
+   * Mark a specific notification as read
+   * PATCH /api/notifications/:notificationId/read
+   */
+  @Patch(':notificationId/read')
+  async markAsRead(
+    @Param('notificationId') notificationId: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    await this.notificationsService.markAsRead(notificationId, user.userId);
+    return { success: true };
+  }
+
+  /**
+   * Delete a notification
+   * DELETE /api/notifications/:notificationId
+   */
+  @Delete(':notificationId')
+  async deleteNotification(
+    @Param('notificationId') notificationId: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    await this.notificationsService.deleteNotification(
+      notificationId,
+      user.userId,
+    );
+    return { message: 'Notification deleted successfully' };
+  }
+}
@@ -0,0 +1,62 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NotificationsController } from './notifications.controller';
+import { DeviceTokensService } from './device-tokens.service';
+import { NotificationDeliveryService } from './notification-delivery.service';
+import { NotificationsSchedulerService } from './notifications-scheduler.service';
+import { PUSH_PROVIDER } from './push-provider';
+import { ExpoPushProvider } from './expo-push.provider';
+import { FakePushProvider } from './fake-push.provider';
+import { EMAIL_PROVIDER } from './email-provider';
+import { SmtpEmailProvider } from './smtp-email.provider';
+import { FakeEmailProvider } from './fake-email.provider';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { NotificationsService } from '../common/services/notifications.service';
+import { JobLockService } from '../common/services/job-lock.service';
+import { UserPreferencesService } from '../common/services/user-preferences.service';
+
+/**
+ * Global so every module shares one NotificationsService with its delivery
+ * providers, and the preferences deliveries are checked against
+ */
+@Global()
+@Module({
+  imports: [SupabaseModule],
+  controllers: [NotificationsController],
+  providers: [
+    NotificationsService,
+    UserPreferencesService,
+    DeviceTokensService,
+    NotificationDeliveryService,
+    NotificationsSchedulerService,
+    JobLockService,
+    {
+      provide: PUSH_PROVIDER,
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('PUSH_PROVIDER') === 'fake'
+          ? new FakePushProvider()
+          : new ExpoPushProvider(
+              configService.get<string>('EXPO_ACCESS_TOKEN'),
+            ),
+      inject: [ConfigService],
+    },
+    {
+      provide: EMAIL_PROVIDER,
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('EMAIL_PROVIDER') === 'fake'
+          ? new FakeEmailProvider()
+          : new SmtpEmailProvider({
+              host: configService.get<string>('SMTP_HOST'),
+              port: parseInt(configService.get<string>('SMTP_PORT') || '587'),
+              secure: configService.get<string>('SMTP_SECURE') === 'true',
+              user: configService.get<string>('SMTP_USER'),
+              password: configService.get<string>('SMTP_PASSWORD'),
+              from:
+                configService.get<string>('EMAIL_FROM') || 'no-reply@localhost',
+            }),
+      inject: [ConfigService],
+    },
+  ],
+  exports: [NotificationsService, UserPreferencesService],
+})
+export class NotificationsModule {}
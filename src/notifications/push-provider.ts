@@ -0,0 +1,26 @@
+export const PUSH_PROVIDER = 'PUSH_PROVIDER';
+
+export interface PushMessage {
+  token: string;
+  title: string;
+  body: string;
+  data?: Record<string, any>;
+}
+
+export interface PushResult {
+  token: string;
+  ok: boolean;
+  error?: string;
+  // The device is gone (app uninstalled, token rotated); stop sending to it
+  invalidToken?: boolean;
+}
+
+/**
+ * Sends push messages to devices
+ * Returns one result per message, in order. Throws when the whole request
+ * failed (network, provider outage) so the delivery is retried.
+ */
+export interface PushProvider {
+  readonly name: string;
+  send(messages: PushMessage[]): Promise<PushResult[]>;
+}
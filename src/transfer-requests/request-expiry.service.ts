@@ -0,0 +1,132 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { NotificationsService } from '../common/services/notifications.service';
+import {
+  JobLockService,
+  REQUEST_EXPIRY_LOCK,
+} from '../common/services/job-lock.service';
+
+// How long a submitted or renewed request stays in the matching pool
+export const REQUEST_VALIDITY_DAYS = 90;
+
+const DEFAULT_WARNING_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RequestExpiryResult {
+  warned: number;
+  expired: number;
+}
+
+/**
+ * Expires transfer requests past their expiry date and warns owners ahead
+ * of time, so they can renew before dropping out of the matching pool
+ */
+@Injectable()
+export class RequestExpiryService {
+  private readonly logger = new Logger(RequestExpiryService.name);
+
+  constructor(
+    @Inject('SUPABASE_CLIENT') private supabase: SupabaseClient,
+    private notificationsService: NotificationsService,
+    private jobLockService: JobLockService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Send due warnings, then expire overdue requests
+   * Skipped (returns zeros) while another instance is processing them.
+   */
+  async processExpiries(): Promise<RequestExpiryResult> {
+    const outcome = await this.jobLockService.runWithLock(
+      REQUEST_EXPIRY_LOCK,
+      async () => ({
+        warned: await this.sendExpiryWarnings(),
+        expired: await this.expireRequests(),
+      }),
+    );
+
+    if (!outcome.acquired) {
+      this.logger.log('Request expiry already running elsewhere, skipping');
+      return { warned: 0, expired: 0 };
+    }
+    return outcome.result;
+  }
+
+  /**
+   * Days before expiry when owners are warned and active requests can be
+   * renewed
+   */
+  getWarningDays(): number {
+    const configured = parseInt(
+      this.configService.get<string>('REQUEST_EXPIRY_WARNING_DAYS') || '',
+    );
+    return isNaN(configured) || configured < 1
+      ? DEFAULT_WARNING_DAYS
+      : configured;
+  }
+
+  private async sendExpiryWarnings(): Promise<number> {
+    const now = Date.now();
+
+    // Marking first means a warning is never sent twice, even if notifying
+    // fails halfway
+    const { data, error } = await this.supabase
+      .from('transfer_requests')
+      .update({ expiry_warning_sent_at: new Date(now).toISOString() })
+      .in('status', ['submitted', 'under_review'])
+      .is('deleted_at', null)
+      .is('expiry_warning_sent_at', null)
+      .gt('expires_at', new Date(now).toISOString())
+      .lte(
+        'expires_at',
+        new Date(now + this.getWarningDays() * DAY_MS).toISOString(),
+      )
+      .select('id, user_id, expires_at');
+
+    if (error) {
+      this.logger.error('Error marking request expiry warnings:', error);
+      throw new Error(error.message);
+    }
+
+    const warned = data || [];
+    if (warned.length > 0) {
+      await this.notificationsService.notifyRequestsExpiring(
+        warned.map((request) => ({
+          requestId: request.id,
+          userId: request.user_id,
+          daysLeft: Math.max(
+            1,
+            Math.ceil((new Date(request.expires_at).getTime() - now) / DAY_MS),
+          ),
+        })),
+      );
+      this.logger.log(`Warned ${warned.length} requests about expiry`);
+    }
+
+    return warned.length;
+  }
+
+  private async expireRequests(): Promise<number> {
+    const { data, error } = await this.supabase.rpc('expire_transfer_requests');
+
+    if (error) {
+      this.logger.error('Error expiring requests:', error);
+      throw new Error(error.message);
+    }
+
+    const expired: Array<{ id: string; user_id: string }> = data || [];
+    if (expired.length > 0) {
+      await this.notificationsService.notifyRequestsExpired(
+        expired.map((request) => ({
+          requestId: request.id,
+          userId: request.user_id,
+        })),
+      );
+      this.logger.log(`Expired ${expired.length} transfer requests`);
+    }
+
+    return expired.length;
+  }
+}
@@ -0,0 +1,31 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { RequestExpiryService } from './request-expiry.service';
+
+@Injectable()
+export class TransferRequestsSchedulerService {
+  private readonly logger = new Logger(TransferRequestsSchedulerService.name);
+
+  constructor(private requestExpiryService: RequestExpiryService) {}
+
+  /**
+   * Warn about and expire transfer requests daily at 1 AM, before the
+   * nightly matching run - 0 1 * * *
+   */
+  @Cron('0 1 * * *', {
+    name: 'expire-requests',
+    timeZone: 'Asia/Colombo',
+  })
+  async processRequestExpiriesDaily() {
+    try {
+      const { warned, expired } =
+        await this.requestExpiryService.processExpiries();
+
+      if (warned > 0 || expired > 0) {
+        this.logger.log(`Request expiry: ${warned} warned, ${expired} expired`);
+      }
+    } catch (error) {
+      this.logger.error('Error processing request expiries:', error);
+    }
+  }
+}
@@ -72,6 +72,17 @@ export class TransferRequestsController {
     return this.transferRequestsService.getRequestById(requestId, user.userId);
   }
 
+  @Get(':requestId/history')
+  async getRequestHistory(
+    @Param('requestId') requestId: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.transferRequestsService.getRequestHistory(
+      requestId,
+      user.userId,
+    );
+  }
+
   @Get(':requestId/preferred-schools')
   async getPreferredSchools(
     @Param('requestId') requestId: string,
@@ -108,6 +119,19 @@ export class TransferRequestsController {
     );
   }
 
+  @Post(':requestId/renew')
+  async renewRequest(
+    @Param('requestId') requestId: string,
+    @Body() body: { purchaseId?: string },
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.transferRequestsService.renewRequest(
+      requestId,
+      user.userId,
+      body.purchaseId,
+    );
+  }
+
   @Post(':requestId/withdraw')
   async withdrawRequest(
     @Param('requestId') requestId: string,
@@ -1,13 +1,24 @@
 import { Module } from '@nestjs/common';
 import { TransferRequestsController } from './transfer-requests.controller';
 import { TransferRequestsService } from './transfer-requests.service';
+import { TransferRequestsSchedulerService } from './transfer-requests-scheduler.service';
+import { RequestExpiryService } from './request-expiry.service';
 import { SupabaseModule } from '../supabase/supabase.module';
 import { PurchasesModule } from '../purchases/purchases.module';
+import { MatchesModule } from '../matches/matches.module';
+import { LifecycleService } from '../common/services/lifecycle.service';
+import { JobLockService } from '../common/services/job-lock.service';
 
 @Module({
-  imports: [SupabaseModule, PurchasesModule],
+  imports: [SupabaseModule, PurchasesModule, MatchesModule],
   controllers: [TransferRequestsController],
-  providers: [TransferRequestsService],
+  providers: [
+    TransferRequestsService,
+    RequestExpiryService,
+    TransferRequestsSchedulerService,
+    LifecycleService,
+    JobLockService,
+  ],
   exports: [TransferRequestsService],
 })
 export class TransferRequestsModule {}
@@ -3,6 +3,7 @@ import {
   Inject,
   NotFoundException,
   BadRequestException,
+  ConflictException,
 } from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
 import {
@@ -10,12 +11,21 @@ import {
   UpdateTransferRequestDto,
 } from './dto/transfer-request.dto';
 import { PurchasesService } from '../purchases/purchases.service';
+import { MatchingQueueService } from '../matches/matching-queue.service';
+import { LifecycleService } from '../common/services/lifecycle.service';
+import {
+  RequestExpiryService,
+  REQUEST_VALIDITY_DAYS,
+} from './request-expiry.service';
 
 @Injectable()
 export class TransferRequestsService {
   constructor(
     @Inject('SUPABASE_CLIENT') private supabase: SupabaseClient,
     private purchasesService: PurchasesService,
+    private matchingQueueService: MatchingQueueService,
+    private lifecycleService: LifecycleService,
+    private requestExpiryService: RequestExpiryService,
   ) {}
 
   async createRequest(userId: string, createDto: CreateTransferRequestDto) {
@@ -234,8 +244,183 @@ export class TransferRequestsService {
     return data;
   }
 
+  /**
+   * Submit a draft request into the matching pool
+   * Only drafts can be submitted; expired requests go through `renewRequest`.
+   * The other moves to `submitted` are for admins and the system.
+   */
   async submitRequest(requestId: string, userId: string, purchaseId?: string) {
-    // Consume a purchase credit (use specific purchase or oldest available)
+    // Check before spending a credit on a request that cannot be submitted
+    const status = await this.lifecycleService.assertCanChangeStatus(
+      'transfer_request',
+      requestId,
+      'submitted',
+      { user_id: userId },
+    );
+    if (status !== 'draft') {
+      throw new BadRequestException(
+        status === 'expired'
+          ? 'This request has expired. Renew it to return to the matching pool.'
+          : 'Only draft requests can be submitted',
+      );
+    }
+
+    const consumedPurchase = await this.consumeCredit(
+      userId,
+      requestId,
+      purchaseId,
+    );
+
+    // Submit the transfer request
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + REQUEST_VALIDITY_DAYS);
+
+    let data: any;
+    try {
+      data = await this.lifecycleService.changeStatus(
+        'transfer_request',
+        requestId,
+        'submitted',
+        userId,
+        {
+          where: { user_id: userId, status: 'draft' },
+          changes: {
+            submitted_at: new Date().toISOString(),
+            expires_at: expiresAt.toISOString(),
+          },
+        },
+      );
+    } catch (error) {
+      // Rollback the purchase consumption if submission fails
+      if (consumedPurchase) {
+        await this.purchasesService.rollbackConsumption(consumedPurchase.id);
+      }
+      throw error;
+    }
+
+    // Look for matches right away instead of waiting for the nightly run
+    await this.matchingQueueService.enqueue(data.id);
+
+    return data;
+  }
+
+  /**
+   * Renew a request for another validity period
+   * An expired request goes back into the matching pool and uses a purchase
+   * credit like a new submission. An active request can be extended for
+   * free once it is within the expiry warning window.
+   */
+  async renewRequest(requestId: string, userId: string, purchaseId?: string) {
+    const { data: request } = await this.supabase
+      .from('transfer_requests')
+      .select('id, status, expires_at')
+      .eq('id', requestId)
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (!request) throw new NotFoundException('Transfer request not found');
+
+    const renewedAt = new Date();
+
+    if (request.status === 'expired') {
+      // Check before spending a credit on a request that cannot be renewed
+      await this.lifecycleService.assertCanChangeStatus(
+        'transfer_request',
+        requestId,
+        'submitted',
+        { user_id: userId },
+      );
+
+      const consumedPurchase = await this.consumeCredit(
+        userId,
+        requestId,
+        purchaseId,
+      );
+
+      let data: any;
+      try {
+        data = await this.lifecycleService.changeStatus(
+          'transfer_request',
+          requestId,
+          'submitted',
+          userId,
+          {
+            where: { user_id: userId },
+            changes: {
+              expires_at: this.addValidity(renewedAt).toISOString(),
+              renewed_at: renewedAt.toISOString(),
+              expiry_warning_sent_at: null,
+            },
+          },
+        );
+      } catch (error) {
+        await this.purchasesService.rollbackConsumption(consumedPurchase.id);
+        throw error;
+      }
+
+      await this.matchingQueueService.enqueue(data.id);
+
+      return data;
+    }
+
+    if (request.status !== 'submitted' && request.status !== 'under_review') {
+      throw new BadRequestException(
+        `Cannot renew a ${request.status} transfer request`,
+      );
+    }
+
+    const expiresAt = new Date(request.expires_at);
+    const renewableFrom = new Date(expiresAt);
+    renewableFrom.setDate(
+      renewableFrom.getDate() - this.requestExpiryService.getWarningDays(),
+    );
+    if (renewedAt < renewableFrom) {
+      throw new BadRequestException(
+        `Transfer request can be renewed from ${renewableFrom.toISOString().split('T')[0]}`,
+      );
+    }
+
+    const { data, error } = await this.supabase
+      .from('transfer_requests')
+      .update({
+        expires_at: this.addValidity(expiresAt).toISOString(),
+        renewed_at: renewedAt.toISOString(),
+        expiry_warning_sent_at: null,
+        updated_at: renewedAt.toISOString(),
+      })
+      .eq('id', requestId)
+      .eq('user_id', userId)
+      // Only if it was not expired or renewed in the meantime
+      .eq('status', request.status)
+      .eq('expires_at', request.expires_at)
+      .select()
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) {
+      throw new ConflictException(
+        'Transfer request was changed by someone else. Please try again.',
+      );
+    }
+
+    return data;
+  }
+
+  private addValidity(from: Date): Date {
+    const expiresAt = new Date(from);
+    expiresAt.setDate(expiresAt.getDate() + REQUEST_VALIDITY_DAYS);
+    return expiresAt;
+  }
+
+  /**
+   * Consume a purchase credit (use specific purchase or oldest available)
+   */
+  private async consumeCredit(
+    userId: string,
+    requestId: string,
+    purchaseId?: string,
+  ) {
     let consumedPurchase: any;
     if (purchaseId) {
       // Verify the specific purchase belongs to user and is validated
@@ -262,35 +447,7 @@ export class TransferRequestsService {
       );
     }
 
-    // Submit the transfer request
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 90);
-
-    const { data, error } = await this.supabase
-      .from('transfer_requests')
-      .update({
-        status: 'submitted',
-        submitted_at: new Date().toISOString(),
-        expires_at: expiresAt.toISOString(),
-      })
-      .eq('id', requestId)
-      .eq('user_id', userId)
-      .eq('status', 'draft')
-      .select()
-      .single();
-
-    if (error || !data) {
-      // Rollback the purchase consumption if submission fails
-      if (consumedPurchase) {
-        await this.purchasesService.rollbackConsumption(consumedPurchase.id);
-      }
-      if (error) throw new Error(error.message);
-      throw new NotFoundException(
-        'Transfer request not found or already submitted',
-      );
-    }
-
-    return data;
+    return consumedPurchase;
   }
 
   async withdrawRequest(requestId: string, userId: string) {
@@ -328,22 +485,39 @@ export class TransferRequestsService {
     }
 
     // If no active matches, proceed with withdrawal
-    const { data, error } = await this.supabase
+    return this.lifecycleService.changeStatus(
+      'transfer_request',
+      requestId,
+      'withdrawn',
+      userId,
+      { where: { user_id: userId } },
+    );
+  }
+
+  /**
+   * Status moves recorded for a request, oldest first
+   */
+  async getRequestHistory(requestId: string, userId: string) {
+    const { data } = await this.supabase
       .from('transfer_requests')
-      .update({ status: 'withdrawn' })
+      .select('id, status')
       .eq('id', requestId)
       .eq('user_id', userId)
-      .in('status', ['submitted', 'under_review'])
-      .select()
-      .single();
+      .maybeSingle();
 
-    if (error) throw new Error(error.message);
-    if (!data)
-      throw new NotFoundException(
-        'Transfer request not found or cannot be withdrawn',
-      );
+    if (!data) throw new NotFoundException('Transfer request not found');
 
-    return data;
+    return {
+      status: data.status,
+      allowed_transitions: await this.lifecycleService.getAllowedTransitions(
+        'transfer_request',
+        data.status,
+      ),
+      history: await this.lifecycleService.getHistory(
+        ['transfer_request'],
+        requestId,
+      ),
+    };
   }
 
   async deleteRequest(requestId: string, userId: string) {
@@ -409,7 +583,7 @@ export class TransferRequestsService {
         '*, current_school:schools(*), preferred_schools:transfer_request_preferences(*, school:schools(*))',
       )
       .eq('user_id', userId)
-      .in('status', ['submitted', 'under_review', 'matched'])
+      .in('status', ['submitted', 'under_review', 'matched', 'accepted'])
       .is('deleted_at', null)
       .order('created_at', { ascending: false })
       .limit(1)
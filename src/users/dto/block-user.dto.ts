@@ -0,0 +1,18 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+export class BlockUserDto {
+  @IsUUID()
+  @IsNotEmpty()
+  blockedUserId: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  reason?: string;
+}
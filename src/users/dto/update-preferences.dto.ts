@@ -0,0 +1,40 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsObject,
+  IsOptional,
+  Matches,
+} from 'class-validator';
+import type { NotificationChannel } from '../../common/services/user-preferences.service';
+
+// "HH:MM", 24-hour clock
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class UpdateUserPreferencesDto {
+  @IsOptional()
+  @IsBoolean()
+  push_notifications_enabled?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  email_notifications_enabled?: boolean;
+
+  // null follows the medium of instruction
+  @IsOptional()
+  @IsIn(['si', 'ta', 'en'])
+  preferred_language?: string | null;
+
+  // Notification type => channels turned off, e.g. { match_accepted: ['email'] }
+  @IsOptional()
+  @IsObject()
+  notification_opt_outs?: Record<string, NotificationChannel[]>;
+
+  // Asia/Colombo time; null for both turns quiet hours off
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: 'quiet_hours_start must be HH:MM' })
+  quiet_hours_start?: string | null;
+
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: 'quiet_hours_end must be HH:MM' })
+  quiet_hours_end?: string | null;
+}
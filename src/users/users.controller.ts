@@ -12,13 +12,35 @@ import {
 import { UsersService } from './users.service';
 import { UpdateUserProfileDto } from './dto/update-profile.dto';
 import { UploadProfileImageDto } from './dto/upload-profile-image.dto';
+import { BlockUserDto } from './dto/block-user.dto';
+import { UpdateUserPreferencesDto } from './dto/update-preferences.dto';
+import { UserPreferencesService } from '../common/services/user-preferences.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../common/decorators/user.decorator';
 
 @Controller('api/users')
 @UseGuards(JwtAuthGuard)
 export class UsersController {
-  constructor(private usersService: UsersService) {}
+  constructor(
+    private usersService: UsersService,
+    private userPreferencesService: UserPreferencesService,
+  ) {}
+
+  @Get('me/preferences')
+  async getPreferences(@CurrentUser() user: any) {
+    return this.userPreferencesService.getPreferences(user.userId);
+  }
+
+  @Patch('me/preferences')
+  async updatePreferences(
+    @Body() updatePreferencesDto: UpdateUserPreferencesDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.userPreferencesService.updatePreferences(
+      user.userId,
+      updatePreferencesDto,
+    );
+  }
 
   @Get(':userId/profile')
   async getUserProfile(
@@ -81,4 +103,47 @@ export class UsersController {
     await this.usersService.deleteProfileImage(userId);
     return { message: 'Profile image deleted successfully' };
   }
+
+  @Get(':userId/blocks')
+  async getBlockedUsers(
+    @Param('userId') userId: string,
+    @CurrentUser() user: any,
+  ) {
+    // Ensure user can only see their own blocklist
+    if (userId !== user.userId) {
+      throw new ForbiddenException('Unauthorized');
+    }
+    return this.usersService.getBlockedUsers(userId);
+  }
+
+  /**
+   * Never match this user with the given user
+   * POST /api/users/:userId/blocks
+   */
+  @Post(':userId/blocks')
+  async blockUser(
+    @Param('userId') userId: string,
+    @Body() blockDto: BlockUserDto,
+    @CurrentUser() user: any,
+  ) {
+    // Ensure user can only change their own blocklist
+    if (userId !== user.userId) {
+      throw new ForbiddenException('Unauthorized');
+    }
+    return this.usersService.blockUser(userId, blockDto);
+  }
+
+  @Delete(':userId/blocks/:blockedUserId')
+  async unblockUser(
+    @Param('userId') userId: string,
+    @Param('blockedUserId') blockedUserId: string,
+    @CurrentUser() user: any,
+  ) {
+    // Ensure user can only change their own blocklist
+    if (userId !== user.userId) {
+      throw new ForbiddenException('Unauthorized');
+    }
+    await this.usersService.unblockUser(userId, blockedUserId);
+    return { message: 'User unblocked successfully' };
+  }
 }
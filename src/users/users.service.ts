@@ -5,9 +5,10 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
-import sharp from 'sharp';
 import { UpdateUserProfileDto } from './dto/update-profile.dto';
 import { UploadProfileImageDto } from './dto/upload-profile-image.dto';
+import { BlockUserDto } from './dto/block-user.dto';
+import { compressToJpeg } from '../common/utils/images';
 
 // Profile image settings
 const PROFILE_IMAGE_SIZE = 400; // 400x400 pixels
@@ -36,13 +37,11 @@ export class UsersService {
     const inputBuffer = Buffer.from(base64Data, 'base64');
 
     // Compress and resize image using sharp
-    const compressedBuffer = await sharp(inputBuffer)
-      .resize(PROFILE_IMAGE_SIZE, PROFILE_IMAGE_SIZE, {
-        fit: 'cover',
-        position: 'center',
-      })
-      .jpeg({ quality: PROFILE_IMAGE_QUALITY })
-      .toBuffer();
+    const { buffer: compressedBuffer } = await compressToJpeg(inputBuffer, {
+      size: PROFILE_IMAGE_SIZE,
+      quality: PROFILE_IMAGE_QUALITY,
+      fit: 'cover',
+    });
 
     // Upload to Supabase Storage
     const { error: uploadError } = await this.supabase.storage
@@ -158,4 +157,65 @@ export class UsersService {
 
     return data;
   }
+
+  /**
+   * Users this user never wants to be matched with
+   */
+  async getBlockedUsers(userId: string) {
+    const { data, error } = await this.supabase
+      .from('user_blocks')
+      .select(
+        'blocked_user_id, reason, created_at, blocked_user:users!blocked_user_id(id, first_name, last_name, profile_image_url)',
+      )
+      .eq('blocker_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw new Error(error.message);
+
+    return data || [];
+  }
+
+  async blockUser(userId: string, blockDto: BlockUserDto) {
+    if (blockDto.blockedUserId === userId) {
+      throw new BadRequestException('You cannot block yourself');
+    }
+
+    const { data: blockedUser } = await this.supabase
+      .from('users')
+      .select('id')
+      .eq('id', blockDto.blockedUserId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (!blockedUser) {
+      throw new NotFoundException('User not found');
+    }
+
+    const { data, error } = await this.supabase
+      .from('user_blocks')
+      .upsert(
+        {
+          blocker_id: userId,
+          blocked_user_id: blockDto.blockedUserId,
+          reason: blockDto.reason,
+        },
+        { onConflict: 'blocker_id,blocked_user_id' },
+      )
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    return data;
+  }
+
+  async unblockUser(userId: string, blockedUserId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('user_blocks')
+      .delete()
+      .eq('blocker_id', userId)
+      .eq('blocked_user_id', blockedUserId);
+
+    if (error) throw new Error(error.message);
+  }
 }